@@ -0,0 +1,2 @@
+export * from "./types";
+export {bearerAuth, basicAuth, apiKeyAuth} from "./strategies";
@@ -0,0 +1,61 @@
+import {WefyAuthStrategy} from "./types";
+
+interface AuthState {
+  /**
+   * Incremented by every successful refresh
+   */
+  generation: number;
+  refreshing: Promise<void> | null;
+}
+
+// Keyed by strategy so clients derived from one another share a single refresh
+const states = new WeakMap<WefyAuthStrategy, AuthState>();
+
+function stateOf(strategy: WefyAuthStrategy): AuthState {
+  let state = states.get(strategy);
+  if (!state) {
+    state = {generation: 0, refreshing: null};
+    states.set(strategy, state);
+  }
+  return state;
+}
+
+/**
+ * Applies the strategy to an outgoing request once any running refresh has finished
+ * @returns Credential generation the request was authorized with
+ */
+export async function authorize(strategy: WefyAuthStrategy, request: {
+  method: string; url: string; headers: Record<string, string>
+}): Promise<number> {
+  const state = stateOf(strategy);
+  await state.refreshing;
+  
+  const url = new URL(request.url);
+  const headers = new Headers(request.headers);
+  await strategy.apply({method: request.method, url, headers});
+  
+  request.url = url.toString();
+  request.headers = Object.fromEntries(headers);
+  return state.generation;
+}
+
+/**
+ * Refreshes credentials rejected for a request authorized with `generation`. Concurrent callers
+ * share one refresh, and credentials refreshed since that request was sent are not refreshed again.
+ */
+export async function refreshCredentials(strategy: WefyAuthStrategy, generation: number): Promise<void> {
+  const state = stateOf(strategy);
+  if (state.generation !== generation) {
+    return;
+  }
+  
+  state.refreshing ??= (async () => {
+    try {
+      await strategy.refresh?.();
+      state.generation++;
+    } finally {
+      state.refreshing = null;
+    }
+  })();
+  await state.refreshing;
+}
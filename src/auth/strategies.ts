@@ -0,0 +1,67 @@
+import {WefyApiKeyAuthOptions, WefyAuthStrategy, WefyBearerAuthOptions, WefyCredentialProvider} from "./types";
+
+async function resolveCredential(provider: WefyCredentialProvider): Promise<string | undefined> {
+  const value = typeof provider === "function" ? await provider() : provider;
+  return value ?? undefined;
+}
+
+/**
+ * Sends `Authorization: Bearer <token>`, asking `token` for the current token on every request
+ */
+export function bearerAuth(token: WefyCredentialProvider, options: WefyBearerAuthOptions = {}): WefyAuthStrategy {
+  const {refresh, scheme = "Bearer"} = options;
+  // A refreshed token stands in for the provider's token it replaced, until the provider moves on
+  let refreshed: { token: string; replaces: string | undefined } | undefined;
+  
+  return {
+    async apply({headers}) {
+      const provided = await resolveCredential(token);
+      if (refreshed && refreshed.replaces !== provided) {
+        refreshed = undefined;
+      }
+      const value = refreshed?.token ?? provided;
+      if (value) {
+        headers.set("Authorization", `${scheme} ${value}`);
+      }
+    }, refresh: refresh && (async () => {
+      const replaces = await resolveCredential(token);
+      const next = await refresh();
+      if (typeof next === "string") {
+        refreshed = {token: next, replaces};
+      }
+    }),
+  };
+}
+
+/**
+ * Sends `Authorization: Basic` with UTF-8 encoded credentials
+ */
+export function basicAuth(username: string, password: string): WefyAuthStrategy {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  const encoded = btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+  
+  return {
+    apply({headers}) {
+      headers.set("Authorization", `Basic ${encoded}`);
+    },
+  };
+}
+
+/**
+ * Sends an API key in a header or query parameter
+ */
+export function apiKeyAuth(key: WefyCredentialProvider, options: WefyApiKeyAuthOptions = {}): WefyAuthStrategy {
+  const {name = "X-API-Key", in: location = "header"} = options;
+  
+  return {
+    async apply({url, headers}) {
+      const value = await resolveCredential(key);
+      if (!value) return;
+      if (location === "query") {
+        url.searchParams.set(name, value);
+      } else {
+        headers.set(name, value);
+      }
+    },
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Request being authorized. Strategies set headers or query parameters on it.
+ */
+export interface WefyAuthRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+}
+
+/**
+ * Adds credentials to requests. When `refresh` is present, a 401 response triggers one
+ * refresh shared by all clients using the strategy and the failed requests are replayed.
+ */
+export interface WefyAuthStrategy {
+  apply(request: WefyAuthRequest): void | Promise<void>;
+  
+  refresh?(): void | Promise<void>;
+}
+
+/**
+ * Credential value or a (possibly async) function returning it on every request
+ */
+export type WefyCredentialProvider = string | (() => string | undefined | null | Promise<string | undefined | null>);
+
+export interface WefyBearerAuthOptions {
+  /**
+   * Obtains a new token after a 401. A returned string replaces the provider's token until the provider
+   * returns a different one, otherwise the provider is expected to return the new token.
+   */
+  refresh?: () => string | void | Promise<string | void>;
+  /**
+   * Authorization scheme (default: `Bearer`)
+   */
+  scheme?: string;
+}
+
+export interface WefyApiKeyAuthOptions {
+  /**
+   * Header or query parameter name (default: `X-API-Key`)
+   */
+  name?: string;
+  in?: "header" | "query";
+}
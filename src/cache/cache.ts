@@ -0,0 +1,309 @@
+import {MemoryCacheStorage} from "./storage";
+import {WefyCacheEntry, WefyCacheOptions, WefyCacheStorage} from "./types";
+import {WefyFetch} from "@/transport/types.ts";
+
+const CACHEABLE_STATUSES = new Set([200, 203, 204, 300, 301, 404, 410]);
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+const CREDENTIAL_HEADERS = ["authorization", "proxy-authorization", "cookie"];
+
+const partitions = new WeakMap<object, number>();
+let nextPartition = 1;
+
+/**
+ * Cache partition of an auth strategy, so that clients sharing a storage never share responses across strategies
+ */
+export function cachePartition(owner: object): string {
+  let id = partitions.get(owner);
+  if (id === undefined) {
+    id = nextPartition++;
+    partitions.set(owner, id);
+  }
+  return `auth${id}`;
+}
+
+/**
+ * FNV-1a hash, keeps credentials and header values out of storage keys
+ */
+function hash(value: string): string {
+  let result = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    result = Math.imul(result ^ value.charCodeAt(index), 0x01000193);
+  }
+  return (result >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Parses a `Cache-Control` header into lowercase directives, valueless directives map to `true`
+ */
+export function parseCacheControl(value: string | null): Map<string, string | true> {
+  const directives = new Map<string, string | true>();
+  for (const part of (value ?? "").split(",")) {
+    const [name, ...rest] = part.split("=");
+    const directive = name.trim().toLowerCase();
+    if (!directive) continue;
+    directives.set(directive, rest.length ? rest.join("=").trim().replace(/^"|"$/g, "") : true);
+  }
+  return directives;
+}
+
+/**
+ * Milliseconds a response stays fresh from now, undefined when it carries no freshness information
+ */
+function freshnessLifetime(headers: Headers, now: number): number | undefined {
+  const directives = parseCacheControl(headers.get("cache-control"));
+  if (directives.has("no-cache")) {
+    return 0;
+  }
+
+  const age = Number(headers.get("age")) || 0;
+  const maxAge = Number(directives.get("max-age"));
+  if (directives.has("max-age") && Number.isFinite(maxAge)) {
+    return Math.max(0, (maxAge - age) * 1000);
+  }
+
+  const expires = headers.get("expires");
+  if (expires) {
+    const expiresAt = Date.parse(expires);
+    const date = Date.parse(headers.get("date") ?? "");
+    return Number.isNaN(expiresAt) ? 0 : Math.max(0, expiresAt - (Number.isNaN(date) ? now : date));
+  }
+
+  return undefined;
+}
+
+function varyHeaders(headers: Headers): string[] {
+  return (headers.get("vary") ?? "").split(",").map((name) => name.trim().toLowerCase()).filter(Boolean);
+}
+
+function matchesVary(entry: WefyCacheEntry, requestHeaders: Headers): boolean {
+  return Object.entries(entry.vary).every(([name, value]) => requestHeaders.get(name) === value);
+}
+
+/**
+ * Key of the variant selected by the values of the `names` headers
+ */
+function variantKey(key: string, names: string[], values: (name: string) => string | null): string {
+  return `${key} ~${hash(JSON.stringify(names.map(values)))}`;
+}
+
+function toResponse(entry: WefyCacheEntry): Response {
+  const body = NULL_BODY_STATUSES.has(entry.status) || !entry.body ? null : entry.body.slice(0);
+  return new Response(body, {status: entry.status, statusText: entry.statusText, headers: entry.headers});
+}
+
+/**
+ * Private HTTP cache placed in front of fetch. Fresh responses are served without a request,
+ * stale ones are revalidated with `If-None-Match`/`If-Modified-Since` and a 304 is answered
+ * from the stored response.
+ *
+ * Entries are partitioned by the credentials of the request, and every `Vary` variant is stored under
+ * its own key; the entry under the primary key holds the latest variant and lists the others.
+ */
+export class WefyCache {
+  readonly storage: WefyCacheStorage;
+  private readonly methods: Set<string>;
+
+  constructor(options: WefyCacheOptions = {}) {
+    this.storage = options.storage ?? new MemoryCacheStorage();
+    this.methods = new Set(options.methods ?? ["GET", "HEAD"]);
+  }
+
+  /**
+   * @param partition Separates the entries of requests sent with different credentials
+   */
+  static key(method: string, url: string, partition?: string): string {
+    return partition ? `${method.toUpperCase()} ${url} #${partition}` : `${method.toUpperCase()} ${url}`;
+  }
+
+  /**
+   * Partition of a request: the given one, e.g. from `cachePartition`, combined with a hash of its credential headers
+   */
+  private static partition(headers: Headers, partition?: string): string | undefined {
+    const credentials = CREDENTIAL_HEADERS.map((name) => headers.get(name));
+    const parts = [partition, credentials.some((value) => value !== null) ? hash(JSON.stringify(credentials)) : undefined];
+    return parts.filter(Boolean).join(".") || undefined;
+  }
+
+  /**
+   * @param partition Keeps the entries of this request apart from those sent with another auth strategy
+   */
+  async fetch(fetcher: WefyFetch, url: string, init: RequestInit = {}, partition?: string): Promise<Response> {
+    const method = (init.method ?? "GET").toUpperCase();
+    const headers = new Headers(init.headers);
+
+    if (!this.methods.has(method)) {
+      const response = await fetcher(url, init);
+      if (!SAFE_METHODS.has(method) && response.ok) {
+        await this.invalidate(url, WefyCache.partition(headers, partition));
+      }
+      return response;
+    }
+
+    const requestDirectives = parseCacheControl(headers.get("cache-control"));
+    if (requestDirectives.has("no-store")) {
+      return fetcher(url, init);
+    }
+
+    const key = WefyCache.key(method, url, WefyCache.partition(headers, partition));
+    const entry = await this.find(key, headers);
+    if (entry && !requestDirectives.has("no-cache") && entry.expiresAt > Date.now()) {
+      return toResponse(entry);
+    }
+
+    let conditional = false;
+    if (entry?.etag && !headers.has("if-none-match")) {
+      headers.set("If-None-Match", entry.etag);
+      conditional = true;
+    }
+    if (entry?.lastModified && !headers.has("if-modified-since")) {
+      headers.set("If-Modified-Since", entry.lastModified);
+      conditional = true;
+    }
+
+    const response = await fetcher(url, {...init, headers});
+
+    if (response.status === 304 && entry && conditional) {
+      const refreshed = this.refresh(entry, response);
+      await this.save(key, refreshed);
+      return toResponse(refreshed);
+    }
+
+    return this.store(key, url, response, headers);
+  }
+
+  /**
+   * Fresh stored response for a request, without sending it
+   */
+  async match(url: string, init: RequestInit = {}, partition?: string): Promise<Response | undefined> {
+    const method = (init.method ?? "GET").toUpperCase();
+    const headers = new Headers(init.headers);
+    const directives = parseCacheControl(headers.get("cache-control"));
+    if (!this.methods.has(method) || directives.has("no-store") || directives.has("no-cache")) {
+      return undefined;
+    }
+
+    const entry = await this.find(WefyCache.key(method, url, WefyCache.partition(headers, partition)), headers);
+    return entry && entry.expiresAt > Date.now() ? toResponse(entry) : undefined;
+  }
+
+  /**
+   * Drops the cached responses of a URL, in every variant of the given partition
+   */
+  async invalidate(url: string, partition?: string): Promise<void> {
+    for (const method of this.methods) {
+      await this.remove(WefyCache.key(method, url, partition));
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.storage.clear?.();
+  }
+
+  /**
+   * Stores a response in the background, reading one branch of its teed body while the caller streams the
+   * response returned
+   */
+  private store(key: string, url: string, response: Response, requestHeaders: Headers): Response {
+    if (!CACHEABLE_STATUSES.has(response.status)) {
+      return response;
+    }
+
+    const directives = parseCacheControl(response.headers.get("cache-control"));
+    const vary = varyHeaders(response.headers);
+    if (directives.has("no-store") || vary.includes("*")) {
+      this.remove(key).catch(() => undefined);
+      return response;
+    }
+
+    const now = Date.now();
+    const lifetime = freshnessLifetime(response.headers, now);
+    const etag = response.headers.get("etag") ?? undefined;
+    const lastModified = response.headers.get("last-modified") ?? undefined;
+    if (lifetime === undefined && !etag && !lastModified) {
+      return response;
+    }
+
+    let returned = response;
+    let body: Promise<ArrayBuffer | null> = Promise.resolve(null);
+    if (response.body) {
+      const [streamed, stored] = response.body.tee();
+      returned = new Response(streamed, {status: response.status, statusText: response.statusText, headers: response.headers});
+      Object.defineProperty(returned, "url", {value: response.url});
+      body = new Response(stored).arrayBuffer();
+    }
+    const entry = {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Array.from(response.headers.entries()),
+      vary: Object.fromEntries(vary.map((name) => [name, requestHeaders.get(name)])),
+      storedAt: now,
+      expiresAt: now + (lifetime ?? 0),
+      etag,
+      lastModified,
+    };
+    // A body that fails to download, e.g. when the request is aborted, is not stored
+    body.then((bytes) => this.save(key, {...entry, body: bytes})).catch(() => undefined);
+    return returned;
+  }
+
+  /**
+   * Stored entry matching the `Vary` headers of a request
+   */
+  private async find(key: string, headers: Headers): Promise<WefyCacheEntry | undefined> {
+    const primary = await this.storage.get(key);
+    if (!primary || matchesVary(primary, headers)) {
+      return primary;
+    }
+
+    const variant = await this.storage.get(variantKey(key, Object.keys(primary.vary), (name) => headers.get(name)));
+    return variant && matchesVary(variant, headers) ? variant : undefined;
+  }
+
+  /**
+   * Stores an entry under the primary key and, when it varies, under its variant key as well
+   */
+  private async save(key: string, entry: WefyCacheEntry): Promise<void> {
+    const names = Object.keys(entry.vary);
+    if (names.length === 0) {
+      await this.storage.set(key, {...entry, variants: undefined});
+      return;
+    }
+
+    const variant = variantKey(key, names, (name) => entry.vary[name]);
+    const primary = await this.storage.get(key);
+    await this.storage.set(variant, {...entry, variants: undefined});
+    await this.storage.set(key, {...entry, variants: [...new Set([...primary?.variants ?? [], variant])]});
+  }
+
+  private async remove(key: string): Promise<void> {
+    const primary = await this.storage.get(key);
+    for (const variant of primary?.variants ?? []) {
+      await this.storage.delete(variant);
+    }
+    await this.storage.delete(key);
+  }
+
+  /**
+   * Updates a stored response with the headers of a 304 revalidation
+   */
+  private refresh(entry: WefyCacheEntry, notModified: Response): WefyCacheEntry {
+    const headers = new Headers(entry.headers);
+    notModified.headers.forEach((value, name) => {
+      if (name !== "content-length") {
+        headers.set(name, value);
+      }
+    });
+
+    const now = Date.now();
+    return {
+      ...entry,
+      headers: Array.from(headers.entries()),
+      storedAt: now,
+      expiresAt: now + (freshnessLifetime(headers, now) ?? 0),
+      etag: headers.get("etag") ?? entry.etag,
+      lastModified: headers.get("last-modified") ?? entry.lastModified,
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./types";
+export {WefyCache, cachePartition, parseCacheControl} from "./cache";
+export {MemoryCacheStorage} from "./storage";
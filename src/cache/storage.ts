@@ -0,0 +1,41 @@
+import {WefyCacheEntry, WefyCacheStorage} from "./types";
+
+/**
+ * Map-backed cache storage, evicting the least recently used entry past `maxEntries`
+ */
+export class MemoryCacheStorage implements WefyCacheStorage {
+  private readonly entries = new Map<string, WefyCacheEntry>();
+  
+  constructor(private readonly maxEntries = 500) {
+  }
+  
+  get size(): number {
+    return this.entries.size;
+  }
+  
+  get(key: string): WefyCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+  
+  set(key: string, entry: WefyCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+  
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+  
+  clear(): void {
+    this.entries.clear();
+  }
+}
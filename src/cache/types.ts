@@ -0,0 +1,46 @@
+/**
+ * Response stored by the cache. Entries are plain data so storages can persist them anywhere.
+ */
+export interface WefyCacheEntry {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: ArrayBuffer | null;
+  /**
+   * Request header values the response varies on, keyed by lowercase header name
+   */
+  vary: Record<string, string | null>;
+  storedAt: number;
+  /**
+   * Time after which the entry must be revalidated before use
+   */
+  expiresAt: number;
+  etag?: string;
+  lastModified?: string;
+  /**
+   * Keys of the stored `Vary` variants, kept on the entry under the primary key
+   */
+  variants?: string[];
+}
+
+/**
+ * Backing store for cached responses. Methods may be synchronous or return promises.
+ */
+export interface WefyCacheStorage {
+  get(key: string): WefyCacheEntry | undefined | Promise<WefyCacheEntry | undefined>;
+  set(key: string, entry: WefyCacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear?(): void | Promise<void>;
+}
+
+export interface WefyCacheOptions {
+  /**
+   * Where responses are kept (default: an in-memory store shared by the client, its decorated clients and scopes)
+   */
+  storage?: WefyCacheStorage;
+  /**
+   * Methods whose responses are cached (default: GET and HEAD)
+   */
+  methods?: ("GET" | "HEAD")[];
+}
@@ -0,0 +1,184 @@
+import {WefyError, WefyTimeoutError} from "@/core/error.ts";
+import {WefyCircuitOpenError} from "./error";
+import {WefyCircuitCall, WefyCircuitKey, WefyCircuitListener, WefyCircuitBreakerOptions, WefyCircuitState, WefyCircuitStateChange} from "./types";
+
+interface Circuit {
+  state: WefyCircuitState;
+  failures: number;
+  openedAt: number;
+  probes: number;
+  successes: number;
+}
+
+const isFailure = (error: unknown): boolean => {
+  if (error instanceof WefyTimeoutError) return error.phase !== "queue";
+  return !(error instanceof WefyError) && !(error instanceof Error && error.name === "AbortError");
+};
+
+/**
+ * Fails requests fast while their service is down. A circuit opens after `threshold` consecutive failures,
+ * rejects requests with a `WefyCircuitOpenError` for `resetTimeout`, then lets probes through while
+ * half-open: they close it again when they succeed and reopen it when one fails.
+ */
+export class WefyCircuitBreaker {
+  private readonly threshold: number;
+  private readonly resetTimeout: number;
+  private readonly halfOpenRequests: number;
+  private readonly key: WefyCircuitKey;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly isFailureStatus: (status: number) => boolean;
+  private readonly listeners = new Set<WefyCircuitListener>();
+  private readonly circuits = new Map<string, Circuit>();
+  
+  constructor(options: WefyCircuitBreakerOptions = {}) {
+    this.threshold = options.threshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30_000;
+    this.halfOpenRequests = options.halfOpenRequests ?? 1;
+    this.key = options.key ?? "origin";
+    this.isFailure = options.isFailure ?? isFailure;
+    this.isFailureStatus = options.isFailureStatus ?? ((status) => status >= 500);
+    if (options.onStateChange) {
+      this.listeners.add(options.onStateChange);
+    }
+  }
+  
+  /**
+   * Adds a state change listener
+   * @returns Function removing the listener
+   */
+  on(listener: WefyCircuitListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+  
+  /**
+   * Circuit a request to `url` belongs to
+   * @param scope Dotted path of the scope sending the request
+   */
+  keyOf(url: string, scope?: string): string {
+    if (typeof this.key === "function") {
+      return this.key({url, scope});
+    }
+    return this.key === "scope" && scope ? scope : new URL(url).origin;
+  }
+  
+  state(key: string): WefyCircuitState {
+    return this.circuit(key)?.state ?? "closed";
+  }
+  
+  /**
+   * Lets a request through the circuit `key`
+   * @throws WefyCircuitOpenError while the circuit is open or all half-open probes are taken
+   */
+  enter(key: string, request: { method?: string; url?: string } = {}): WefyCircuitCall {
+    const circuit = this.circuit(key);
+    if (circuit?.state === "open" || (circuit?.state === "half-open" && circuit.probes >= this.halfOpenRequests)) {
+      const retryAfter = circuit.state === "open" ? Math.max(0, circuit.openedAt + this.resetTimeout - Date.now()) : 0;
+      throw new WefyCircuitOpenError(key, retryAfter, request.method, request.url);
+    }
+    
+    const probe = circuit?.state === "half-open";
+    if (probe) {
+      circuit.probes += 1;
+    }
+    let done = false;
+    const settle = (failed?: boolean) => {
+      if (done) {
+        return;
+      }
+      done = true;
+      this.record(key, probe, failed);
+    };
+    return {
+      response: (response) => settle(this.isFailureStatus(response.status)),
+      error: (error) => settle(this.isFailure(error) ? true : undefined),
+      release: () => settle(),
+    };
+  }
+  
+  /**
+   * Closes the circuit `key`, or every circuit
+   */
+  reset(key?: string): void {
+    for (const name of key === undefined ? [...this.circuits.keys()] : [key]) {
+      const circuit = this.circuits.get(name);
+      if (circuit && circuit.state !== "closed") {
+        this.transition(name, circuit, "closed");
+      }
+      this.circuits.delete(name);
+    }
+  }
+  
+  /**
+   * @param failed Whether the request failed, undefined when it ended without an outcome
+   */
+  private record(key: string, probe: boolean, failed: boolean | undefined): void {
+    const circuit = this.circuits.get(key);
+    if (probe && circuit?.state === "half-open") {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+    }
+    
+    if (failed === undefined) {
+      return;
+    }
+    if (failed) {
+      const current = circuit ?? this.create(key);
+      current.failures += 1;
+      if (current.state === "half-open" || (current.state === "closed" && current.failures >= this.threshold)) {
+        this.transition(key, current, "open");
+      }
+      return;
+    }
+    
+    if (circuit?.state === "half-open" && probe) {
+      circuit.successes += 1;
+      if (circuit.successes >= this.halfOpenRequests) {
+        this.transition(key, circuit, "closed");
+        this.circuits.delete(key);
+      }
+    } else if (circuit?.state === "closed") {
+      this.circuits.delete(key);
+    }
+  }
+  
+  /**
+   * Circuit `key`, turned half-open once its reset timeout elapsed
+   */
+  private circuit(key: string): Circuit | undefined {
+    const circuit = this.circuits.get(key);
+    if (circuit?.state === "open" && Date.now() - circuit.openedAt >= this.resetTimeout) {
+      this.transition(key, circuit, "half-open");
+    }
+    return circuit;
+  }
+  
+  private create(key: string): Circuit {
+    const circuit: Circuit = {state: "closed", failures: 0, openedAt: 0, probes: 0, successes: 0};
+    this.circuits.set(key, circuit);
+    return circuit;
+  }
+  
+  private transition(key: string, circuit: Circuit, to: WefyCircuitState): void {
+    const from = circuit.state;
+    circuit.state = to;
+    circuit.probes = 0;
+    circuit.successes = 0;
+    if (to === "open") {
+      circuit.openedAt = Date.now();
+    }
+    this.emit({key, from, to, failures: circuit.failures});
+    if (to === "closed") {
+      circuit.failures = 0;
+    }
+  }
+  
+  private emit(change: WefyCircuitStateChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("Error in circuit breaker listener:", error);
+      }
+    }
+  }
+}
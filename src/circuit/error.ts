@@ -0,0 +1,15 @@
+import {WefyError} from "@/core/error.ts";
+
+/**
+ * Raised without sending the request while the circuit of its origin or scope is open
+ */
+export class WefyCircuitOpenError extends WefyError {
+  /**
+   * @param key Circuit the request belongs to
+   * @param retryAfter Milliseconds until the circuit lets a probe through
+   */
+  constructor(public readonly key: string, public readonly retryAfter: number, method?: string, url?: string) {
+    super(`Circuit for ${key} is open, retry in ${retryAfter}ms`, {method, url});
+    this.name = "WefyCircuitOpenError";
+  }
+}
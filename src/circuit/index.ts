@@ -0,0 +1,3 @@
+export * from "./types";
+export {WefyCircuitBreaker} from "./breaker";
+export {WefyCircuitOpenError} from "./error";
@@ -0,0 +1,71 @@
+export type WefyCircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Groups requests into circuits: by the origin they are sent to, by the scope sending them (requests
+ * outside any scope fall back to their origin), or by a custom key
+ */
+export type WefyCircuitKey = "origin" | "scope" | ((request: { url: string; scope?: string }) => string);
+
+export interface WefyCircuitBreakerOptions {
+  /**
+   * Consecutive failures opening a circuit (default: 5)
+   */
+  threshold?: number;
+  /**
+   * Milliseconds an open circuit fails fast before letting probes through (default: 30000)
+   */
+  resetTimeout?: number;
+  /**
+   * Probes let through at once while half-open; the circuit closes once as many succeeded (default: 1)
+   */
+  halfOpenRequests?: number;
+  /**
+   * How requests are grouped into circuits (default: "origin")
+   */
+  key?: WefyCircuitKey;
+  /**
+   * Whether an error thrown while sending counts as a failure. By default timeouts and network errors do,
+   * other `WefyError`s and aborts do not.
+   */
+  isFailure?: (error: unknown) => boolean;
+  /**
+   * Whether a response status counts as a failure (default: 5xx statuses)
+   */
+  isFailureStatus?: (status: number) => boolean;
+  /**
+   * Receives every state change, the same as listeners added with `on`
+   */
+  onStateChange?: WefyCircuitListener;
+}
+
+export interface WefyCircuitStateChange {
+  key: string;
+  from: WefyCircuitState;
+  to: WefyCircuitState;
+  /**
+   * Consecutive failures recorded when the state changed
+   */
+  failures: number;
+}
+
+export type WefyCircuitListener = (change: WefyCircuitStateChange) => void;
+
+/**
+ * Outcome of a request let through a circuit, only the first call counts
+ */
+export interface WefyCircuitCall {
+  /**
+   * Records the response received, a failure when its status is
+   */
+  response(response: Response): void;
+  
+  /**
+   * Records the error the request failed with, a failure when `isFailure` says so
+   */
+  error(error: unknown): void;
+  
+  /**
+   * Ends the call without an outcome, such as when it was aborted
+   */
+  release(): void;
+}
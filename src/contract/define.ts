@@ -0,0 +1,29 @@
+import {Params, PathParams, StandardSchemaV1, WefyRequestBody, WefyRequestConfig} from "@/core/types.ts";
+import {WefyContract, WefyContractClient, WefyContractContext, WefyShape, WefyTyped} from "./types";
+
+/**
+ * Declares the type of a contract field without validating it
+ */
+export function typed<T>(): WefyTyped<T> {
+  return {};
+}
+
+function isSchema(shape: WefyShape | undefined): shape is StandardSchemaV1 {
+  return typeof shape === "object" && shape !== null && "~standard" in shape;
+}
+
+/**
+ * Builds the scope factory of a contract: one method per endpoint, taking its path parameters,
+ * query and body and resolving to its response
+ */
+export function defineContract<const Contract extends WefyContract>(contract: Contract): (ctx: WefyContractContext) => WefyContractClient<Contract> {
+  return (ctx) => Object.fromEntries(Object.entries(contract).map(([name, endpoint]) => [
+    name, (input: { params?: PathParams; query?: Params; body?: unknown } = {}, config: WefyRequestConfig = {}) => ctx.send(endpoint.method, endpoint.path, {
+      ...config,
+      pathParams: input.params ?? config.pathParams ?? {},
+      params: input.query ? {...config.params, ...input.query} : config.params,
+      body: input.body as WefyRequestBody,
+      schema: isSchema(endpoint.response) ? endpoint.response : config.schema,
+    }),
+  ])) as WefyContractClient<Contract>;
+}
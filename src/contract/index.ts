@@ -0,0 +1,2 @@
+export * from "./types";
+export {defineContract, typed} from "./define";
@@ -0,0 +1,72 @@
+import type {HttpMethod, Params, PathParamNames, StandardSchemaV1, WefyRequestConfig, WefySendInit} from "@/core/types.ts";
+
+declare const shape: unique symbol;
+
+/**
+ * Type-only declaration of a contract field, created with `typed<T>()`
+ */
+export interface WefyTyped<T> {
+  readonly [shape]?: T;
+}
+
+/**
+ * Type of a contract field: a Standard Schema or a `typed<T>()` marker
+ */
+export type WefyShape<T = unknown> = StandardSchemaV1<unknown, T> | WefyTyped<T>;
+
+type InferInput<Shape> = Shape extends StandardSchemaV1 ? StandardSchemaV1.InferInput<Shape> : Shape extends WefyTyped<infer T> ? T : never;
+
+type InferOutput<Shape> = Shape extends StandardSchemaV1 ? StandardSchemaV1.InferOutput<Shape> : Shape extends WefyTyped<infer T> ? T : never;
+
+export interface WefyEndpoint<Path extends string = string> {
+  method: HttpMethod;
+  /**
+   * Path relative to the client's base URL, with `:name` or `{name}` placeholders
+   */
+  path: Path;
+  /**
+   * Path parameters, inferred from `path` as strings or numbers when omitted
+   */
+  params?: WefyShape;
+  query?: WefyShape;
+  body?: WefyShape;
+  /**
+   * A schema also validates the response body
+   */
+  response?: WefyShape;
+}
+
+export type WefyContract = Record<string, WefyEndpoint>;
+
+type Field<Key extends string, T> = [T] extends [never] ? unknown : object extends T ? { [K in Key]?: T } : { [K in Key]: T };
+
+type EndpointParams<Endpoint extends WefyEndpoint> = Endpoint extends { params: infer Shape } ? InferInput<Shape>
+  : [PathParamNames<Endpoint["path"]>] extends [never] ? never : Record<PathParamNames<Endpoint["path"]>, string | number>;
+
+/**
+ * Argument of a contract method
+ */
+export type WefyEndpointInput<Endpoint extends WefyEndpoint> =
+  Field<"params", EndpointParams<Endpoint>>
+  & (Endpoint extends { query: infer Shape } ? Field<"query", InferInput<Shape>> : { query?: Params })
+  & Field<"body", Endpoint extends { body: infer Shape } ? InferInput<Shape> : never>;
+
+export type WefyEndpointResponse<Endpoint extends WefyEndpoint> = Endpoint extends { response: infer Shape } ? InferOutput<Shape> : unknown;
+
+export type WefyEndpointMethod<Endpoint extends WefyEndpoint> = object extends WefyEndpointInput<Endpoint>
+  ? (input?: WefyEndpointInput<Endpoint>, config?: WefyRequestConfig) => Promise<WefyEndpointResponse<Endpoint>>
+  : (input: WefyEndpointInput<Endpoint>, config?: WefyRequestConfig) => Promise<WefyEndpointResponse<Endpoint>>;
+
+/**
+ * Scope methods generated from a contract
+ */
+export type WefyContractClient<Contract extends WefyContract> = {
+  [Name in keyof Contract]: WefyEndpointMethod<Contract[Name]>;
+};
+
+/**
+ * Part of the scope context a contract sends its requests with
+ */
+export interface WefyContractContext {
+  send(method: HttpMethod, path: string, init?: WefySendInit): Promise<unknown>;
+}
@@ -0,0 +1,92 @@
+interface Waiter {
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+interface InFlightRequest {
+  controller: AbortController;
+  waiters: Set<Waiter>;
+}
+
+/**
+ * Shares one in-flight fetch between identical concurrent requests. Every caller receives its
+ * own copy of the response; a caller that aborts only stops waiting, the shared fetch is
+ * aborted once no caller is left. After headers arrived, every copy of the body is cancelled
+ * on its own caller's abort or read timeout, and the shared body once no copy is left.
+ */
+export class WefyDeduplicator {
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  
+  /**
+   * Identifies a request by method, URL and headers, ignoring header order and case
+   */
+  static key(method: string, url: string, headers: Headers): string {
+    const entries = Array.from(headers.entries()).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return JSON.stringify([method.toUpperCase(), url, entries]);
+  }
+  
+  get size(): number {
+    return this.inFlight.size;
+  }
+  
+  /**
+   * Joins the in-flight request under `key`, starting it with `send` when there is none
+   * @param key Request identity, see {@link WefyDeduplicator.key}
+   * @param send Starts the shared fetch, aborted through the given signal once every caller left
+   * @param signal Aborts this caller only
+   */
+  fetch(key: string, send: (signal: AbortSignal) => Promise<Response>, signal?: AbortSignal | null): Promise<Response> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    
+    const request = this.inFlight.get(key) ?? this.start(key, send);
+    
+    return new Promise<Response>((resolve, reject) => {
+      const onAbort = () => {
+        request.waiters.delete(waiter);
+        reject(signal?.reason);
+        if (request.waiters.size === 0) {
+          this.release(key, request);
+          request.controller.abort(signal?.reason);
+        }
+      };
+      const waiter: Waiter = {
+        resolve: (response) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(response);
+        }, reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      
+      request.waiters.add(waiter);
+      signal?.addEventListener("abort", onAbort, {once: true});
+    });
+  }
+  
+  private start(key: string, send: (signal: AbortSignal) => Promise<Response>): InFlightRequest {
+    const request: InFlightRequest = {controller: new AbortController(), waiters: new Set()};
+    this.inFlight.set(key, request);
+    
+    new Promise<Response>((resolve) => resolve(send(request.controller.signal))).then((response) => {
+      this.release(key, request);
+      // Clone for all but the last caller before any of them can start reading the body
+      const waiters = Array.from(request.waiters);
+      const responses = waiters.map((_, index) => (index === waiters.length - 1 ? response : response.clone()));
+      waiters.forEach((waiter, index) => waiter.resolve(responses[index]));
+    }, (error) => {
+      this.release(key, request);
+      request.waiters.forEach((waiter) => waiter.reject(error));
+    });
+    
+    return request;
+  }
+  
+  private release(key: string, request: InFlightRequest): void {
+    if (this.inFlight.get(key) === request) {
+      this.inFlight.delete(key);
+    }
+  }
+}
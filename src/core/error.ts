@@ -1,9 +1,13 @@
+import type {StandardSchemaV1, WefyTimeoutPhase} from "@/core/types.ts";
+
 interface WefyErrorOptions {
   error: unknown;
   cause: unknown;
   status: number;
   statusText: string;
   response: Response;
+  method: string;
+  url: string;
 }
 
 export class WefyError extends Error {
@@ -11,7 +15,13 @@ export class WefyError extends Error {
   public error?: unknown;
   public status?: number;
   public statusText?: string;
+  public method?: string;
+  public url?: string;
   public cause?: unknown;
+  /**
+   * Number of attempts made before the request failed
+   */
+  public attempts?: number;
   
   constructor(
     message: string,
@@ -24,14 +34,16 @@ export class WefyError extends Error {
     this.statusText = options?.statusText;
     this.response = options?.response;
     this.error = options?.error;
+    this.method = options?.method;
+    this.url = options?.url;
     
     Object.setPrototypeOf(this, new.target.prototype);
   }
 }
 
 class WefyTimeoutError extends WefyError {
-  constructor(timeout: number | undefined) {
-    super(`Request timeout after ${timeout}ms`);
+  constructor(public readonly timeout: number | undefined, public readonly phase: WefyTimeoutPhase = 'connect') {
+    super(phase === 'read' ? `Response read timeout after ${timeout}ms` : phase === 'queue' ? `Request queue timeout after ${timeout}ms` : `Request timeout after ${timeout}ms`);
     this.name = 'WefyTimeoutError';
   }
 }
@@ -44,5 +56,68 @@ class WefyParseError extends WefyError {
   }
 }
 
+/**
+ * Thrown when a response status is rejected by `validateStatus`.
+ * `error` holds the parsed response body and `response` an unread clone of the response.
+ */
+class WefyHttpError extends WefyError {
+  declare public response: Response;
+  declare public status: number;
+  declare public statusText: string;
+  declare public method: string;
+  declare public url: string;
+  
+  constructor(response: Response, details: Pick<WefyErrorOptions, 'error' | 'method' | 'url'>) {
+    super(describeHttpFailure(response.status, details.error), {
+      ...details, response, status: response.status, statusText: response.statusText,
+    });
+    this.name = 'WefyHttpError';
+  }
+}
+
+/**
+ * Thrown when a parsed response body does not satisfy the request schema
+ */
+class WefyValidationError extends WefyError {
+  constructor(public readonly issues: ReadonlyArray<StandardSchemaV1.Issue>, data: unknown) {
+    super(`Response validation failed: ${issues.map(describeIssue).join('; ')}`, {error: data});
+    this.name = 'WefyValidationError';
+  }
+}
+
+/**
+ * Thrown when the path parameters of a request do not match the placeholders of its path
+ */
+class WefyPathParamError extends WefyError {
+  constructor(public readonly path: string, public readonly missing: string[], public readonly unused: string[]) {
+    const problems = [missing.length ? `missing ${missing.join(', ')}` : '', unused.length ? `unused ${unused.join(', ')}` : ''];
+    super(`Path parameters do not match ${path}: ${problems.filter(Boolean).join('; ')}`);
+    this.name = 'WefyPathParamError';
+  }
+}
+
+function describeIssue(issue: StandardSchemaV1.Issue): string {
+  const path = issue.path?.map((segment) => String(typeof segment === 'object' ? segment.key : segment)).join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+function describeHttpFailure(status: number, body: unknown): string {
+  const message = `Request failed with status ${status}`;
+  if (typeof body === 'string' && body) {
+    return `${message}: ${body}`;
+  }
+  if (body && typeof body === 'object') {
+    const {message: detail, error} = body as Record<string, unknown>;
+    const reason = typeof detail === 'string' ? detail : typeof error === 'string' ? error : undefined;
+    if (reason) {
+      return `${message}: ${reason}`;
+    }
+  }
+  return message;
+}
+
 export {WefyParseError};
-export {WefyTimeoutError};
\ No newline at end of file
+export {WefyTimeoutError};
+export {WefyHttpError};
+export {WefyValidationError};
+export {WefyPathParamError};
@@ -2,4 +2,4 @@ export * from "./wefy";
 export * from "./types";
 export * from "./error";
 export {clonedRes} from "@/core/utils.ts";
-export {WefyResponse} from "@/core/response.ts";
+export {WefyResponse, WefyStreamResponse} from "@/core/response.ts";
@@ -0,0 +1,64 @@
+import {ParamValue, Params, SanitizeUrlOptions} from "@/core/types.ts";
+
+type ParamsOptions = Pick<SanitizeUrlOptions, "arrayFormat" | "nulls">;
+
+/**
+ * Plain records are nested, other objects such as `Date` or objects with their own `toString` are written as strings
+ */
+function isRecord(value: unknown): value is Record<string, ParamValue> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date) && value.toString === Object.prototype.toString;
+}
+
+function stringify(value: ParamValue, nulls: ParamsOptions["nulls"]): string {
+  if (value === null) {
+    return nulls === "literal" ? "null" : "";
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Flattens params into query entries. Key segments and values pass through `encode`,
+ * the brackets joining nested keys do not.
+ */
+export function serializeParams(params: Params, options: ParamsOptions = {}, encode: (component: string) => string = (component) => component): [string, string][] {
+  const {arrayFormat = "repeat", nulls = "skip"} = options;
+  const entries: [string, string][] = [];
+  
+  const visit = (key: string, value: ParamValue): void => {
+    if (value === undefined || (value === null && nulls === "skip")) {
+      return;
+    }
+    
+    if (Array.isArray(value)) {
+      const items = (value as ReadonlyArray<ParamValue>).filter((item) => item !== undefined && (item !== null || nulls !== "skip"));
+      if (arrayFormat === "comma" && !items.some((item) => Array.isArray(item) || isRecord(item))) {
+        if (items.length) {
+          entries.push([key, items.map((item) => encode(stringify(item, nulls))).join(",")]);
+        }
+        return;
+      }
+      items.forEach((item, index) => {
+        // Records inside arrays need an index to keep their fields together
+        const nested = arrayFormat === "indices" || isRecord(item) || Array.isArray(item);
+        visit(nested ? `${key}[${index}]` : arrayFormat === "brackets" ? `${key}[]` : key, item);
+      });
+      return;
+    }
+    
+    if (isRecord(value)) {
+      for (const [field, fieldValue] of Object.entries(value)) {
+        visit(`${key}[${encode(field)}]`, fieldValue);
+      }
+      return;
+    }
+    
+    entries.push([key, encode(stringify(value, nulls))]);
+  };
+  
+  for (const [key, value] of Object.entries(params)) {
+    if (key) {
+      visit(encode(key), value);
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,146 @@
+import {WefyProgressEvent} from "@/core/types.ts";
+
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+type ProgressCallback = (event: WefyProgressEvent) => void;
+
+/**
+ * Counts the bytes flowing through it, reporting after every chunk and once at the end
+ */
+function progressStream(total: number | undefined, onProgress: ProgressCallback): TransformStream<Uint8Array, Uint8Array> {
+  const startedAt = Date.now();
+  let loaded = 0;
+  
+  const report = (done: boolean) => {
+    const elapsed = (Date.now() - startedAt) / 1000;
+    onProgress({
+      loaded, total, progress: total ? Math.min(1, loaded / total) : undefined, rate: elapsed > 0 ? loaded / elapsed : 0, done,
+    });
+  };
+  
+  return new TransformStream({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      controller.enqueue(chunk);
+      report(false);
+    }, flush() {
+      report(true);
+    },
+  });
+}
+
+/**
+ * Streaming request bodies are sent with chunked encoding, which browsers only allow over
+ * HTTP/2 and not at all in some engines, so they are limited to server runtimes
+ */
+function supportsRequestStreams(): boolean {
+  if (typeof document !== "undefined" || typeof ReadableStream === "undefined") {
+    return false;
+  }
+  
+  let duplexAccessed = false;
+  const hasContentType = new Request("http://localhost", {
+    body: new ReadableStream(), method: "POST", get duplex() {
+      duplexAccessed = true;
+      return "half";
+    },
+  } as RequestInit).headers.has("Content-Type");
+  return duplexAccessed && !hasContentType;
+}
+
+/**
+ * Length of a body known without encoding it
+ */
+function knownLength(body: BodyInit): number | undefined {
+  if (typeof body === "string") return new TextEncoder().encode(body).byteLength;
+  if (body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+  return undefined;
+}
+
+/**
+ * Wraps the response body so reading it reports download progress. `Content-Length` gives
+ * the total unless the body is content-encoded, in which case it does not match the bytes read.
+ */
+export function trackDownload(response: Response, onProgress: ProgressCallback): Response {
+  if (!response.body) {
+    return response;
+  }
+  
+  const encoding = response.headers.get("content-encoding");
+  const length = Number(response.headers.get("content-length"));
+  const total = (!encoding || encoding === "identity") && length > 0 ? length : undefined;
+  
+  const tracked = new Response(response.body.pipeThrough(progressStream(total, onProgress)), {
+    status: response.status, statusText: response.statusText, headers: response.headers,
+  });
+  Object.defineProperty(tracked, "url", {value: response.url});
+  return tracked;
+}
+
+/**
+ * Prepares a request body for upload progress. Where streaming uploads are unsupported the body
+ * is sent unchanged and `complete` reports the whole upload once the response arrives.
+ *
+ * Streamed bodies keep their length as `Content-Length`, so they are not sent with chunked encoding.
+ * Progress counts the bytes handed to fetch, which reads them as the connection accepts them.
+ */
+export async function trackUpload(body: BodyInit | null | undefined, headers: Headers, onProgress: ProgressCallback): Promise<{
+  body: BodyInit | null | undefined; duplex?: "half"; complete: () => void;
+}> {
+  const noop = () => {
+  };
+  if (body === null || body === undefined) {
+    return {body, complete: noop};
+  }
+  
+  if (!supportsRequestStreams()) {
+    const startedAt = Date.now();
+    const total = knownLength(body) ?? (Number(headers.get("content-length")) || undefined);
+    return {
+      body, complete: () => {
+        const elapsed = (Date.now() - startedAt) / 1000;
+        onProgress({loaded: total ?? 0, total, progress: 1, rate: elapsed > 0 && total ? total / elapsed : 0, done: true});
+      },
+    };
+  }
+  
+  if (body instanceof ReadableStream) {
+    const total = Number(headers.get("content-length")) || undefined;
+    return {body: body.pipeThrough(progressStream(total, onProgress)), duplex: "half", complete: noop};
+  }
+  
+  let source: ReadableStream<Uint8Array>;
+  let total: number;
+  if (body instanceof Blob) {
+    // Blobs are streamed from their source instead of being read into memory
+    if (body.type && !headers.has("content-type")) {
+      headers.set("Content-Type", body.type);
+    }
+    source = body.stream();
+    total = body.size;
+  } else {
+    // Let the platform encode the body, which also yields the multipart boundary of FormData
+    const encoded = new Request("http://localhost", {method: "POST", body, headers});
+    const contentType = encoded.headers.get("content-type");
+    if (contentType && !headers.has("content-type")) {
+      headers.set("Content-Type", contentType);
+    }
+    const bytes = new Uint8Array(await encoded.arrayBuffer());
+    let offset = 0;
+    source = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (offset >= bytes.byteLength) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(bytes.subarray(offset, offset + UPLOAD_CHUNK_SIZE));
+        offset += UPLOAD_CHUNK_SIZE;
+      },
+    });
+    total = bytes.byteLength;
+  }
+  
+  headers.set("Content-Length", String(total));
+  return {body: source.pipeThrough(progressStream(total, onProgress)), duplex: "half", complete: noop};
+}
@@ -1,11 +1,65 @@
-import {WefyParseError} from "@/core/error.ts";
+import {WefyParseError, WefyTimeoutError, WefyValidationError} from "@/core/error.ts";
+import {StandardSchemaV1, WefyResponseOptions} from "@/core/types.ts";
+
+/**
+ * Runs `data` through the schema, resolving to the schema output
+ */
+async function validateData<T>(data: T, schema: StandardSchemaV1 | undefined): Promise<T> {
+  if (!schema) {
+    return data;
+  }
+  
+  const result = await schema["~standard"].validate(data);
+  if (result.issues) {
+    throw new WefyValidationError(result.issues, data);
+  }
+  return result.value as T;
+}
+
+/**
+ * Rejects with a read-phase `WefyTimeoutError` when `read` outlives the configured read timeout,
+ * calling `cancel` with that error so the transfer stops as well
+ */
+function withReadTimeout<T>(read: Promise<T>, {readTimeout, onReadTimeout}: WefyResponseOptions, cancel: (error: WefyTimeoutError) => void): Promise<T> {
+  if (!readTimeout || readTimeout <= 0) {
+    return read;
+  }
+  
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      const error = new WefyTimeoutError(readTimeout, 'read');
+      // Rejected first, a cancelled reader resolves its pending read as done
+      reject(error);
+      onReadTimeout?.();
+      cancel(error);
+    }, readTimeout);
+  });
+  
+  return Promise.race([read, timeout]).finally(() => clearTimeout(timeoutId));
+}
 
 class WefyResponse<Data = unknown> extends Promise<Data> {
   private response: Response | null = null;
   private responseData = new Map<string, unknown>();
+  /**
+   * Readers with a read in progress, cancelled along with the body
+   */
+  private readonly readers = new Set<ReadableStreamDefaultReader<Uint8Array>>();
+  /**
+   * Rejects with the abort reason of `options.signal`, ending reads in progress
+   */
+  private readonly aborted: Promise<never>;
+  private readonly onAbort: () => void;
+  private settled = false;
   private readonly responseReady: Promise<Response>;
+  private readonly options: WefyResponseOptions;
+  
+  static get [Symbol.species]() {
+    return Promise;
+  }
   
-  constructor(resPromise: Promise<Response> | Response) {
+  constructor(resPromise: Promise<Response> | Response, options: WefyResponseOptions = {}) {
     let resolveResponse: (response: Response) => void;
     let rejectResponse: (error: unknown) => void;
     
@@ -16,18 +70,44 @@ class WefyResponse<Data = unknown> extends Promise<Data> {
     
     super(async (resolve, reject) => {
       try {
-        const response = resPromise instanceof Promise ? await resPromise : resPromise;
+        const response = await resPromise;
+        this.response = response;
+        if (options.parse === false) {
+          resolveResponse(response);
+          resolve(undefined as Data);
+          return;
+        }
+        
+        // Parse a copy so the body stays readable through the response methods
         const clonedResponse = response.clone();
-        resolveResponse(clonedResponse);
+        resolveResponse(response);
         
-        const parsedData = await this.parseResponseData(clonedResponse);
-        resolve(parsedData);
+        const parsedData = await this.parseResponseData(await this.buffer(clonedResponse));
+        resolve(await validateData(parsedData, options.schema));
       } catch (err) {
         rejectResponse(err);
         reject(err);
       }
     });
     
+    this.options = options;
+    let rejectAborted: (reason: unknown) => void;
+    this.aborted = new Promise<never>((_, reject) => {
+      rejectAborted = reject;
+    });
+    this.aborted.catch(() => undefined);
+    this.onAbort = () => {
+      const reason = options.signal?.reason;
+      // Rejected first, a cancelled reader resolves its pending read as done
+      rejectAborted(reason);
+      this.cancel(reason);
+      this.settle();
+    };
+    if (options.signal?.aborted) {
+      this.onAbort();
+    } else {
+      options.signal?.addEventListener('abort', this.onAbort, {once: true});
+    }
     this.responseReady = responsePromise;
     this.responseReady.then(response => {
       this.response = response;
@@ -63,9 +143,12 @@ class WefyResponse<Data = unknown> extends Promise<Data> {
     const cacheKey = 'json';
     if (!this.responseData.has(cacheKey)) {
       try {
-        const data = await this.response.clone().json();
+        const data = await (await this.buffer(this.response.clone())).json();
         this.responseData.set(cacheKey, data);
       } catch (error) {
+        if (error instanceof WefyTimeoutError) {
+          throw error;
+        }
         throw new WefyParseError('application/json', error);
       }
     }
@@ -81,7 +164,7 @@ class WefyResponse<Data = unknown> extends Promise<Data> {
     
     const cacheKey = 'text';
     if (!this.responseData.has(cacheKey)) {
-      const data = await this.response.clone().text();
+      const data = await (await this.buffer(this.response.clone())).text();
       this.responseData.set(cacheKey, data);
     }
     
@@ -96,7 +179,7 @@ class WefyResponse<Data = unknown> extends Promise<Data> {
     
     const cacheKey = 'blob';
     if (!this.responseData.has(cacheKey)) {
-      const data = await this.response.clone().blob();
+      const data = await (await this.buffer(this.response.clone())).blob();
       this.responseData.set(cacheKey, data);
     }
     
@@ -111,7 +194,7 @@ class WefyResponse<Data = unknown> extends Promise<Data> {
     
     const cacheKey = 'formData';
     if (!this.responseData.has(cacheKey)) {
-      const data = await this.response.clone().formData();
+      const data = await (await this.buffer(this.response.clone())).formData();
       this.responseData.set(cacheKey, data);
     }
     
@@ -126,21 +209,160 @@ class WefyResponse<Data = unknown> extends Promise<Data> {
     
     const cacheKey = 'arrayBuffer';
     if (!this.responseData.has(cacheKey)) {
-      const data = await this.response.clone().arrayBuffer();
+      const data = await (await this.buffer(this.response.clone())).arrayBuffer();
       this.responseData.set(cacheKey, data);
     }
     
     return this.responseData.get(cacheKey) as ArrayBuffer;
   }
   
-  async auto(): Promise<Data> {
+  /**
+   * Iterates over the raw body chunks as they arrive, without buffering them
+   */
+  async* stream(): AsyncGenerator<Uint8Array, void, undefined> {
     await this.responseReady;
     if (!this.response) {
       throw new Error('Response not ready');
     }
+    if (!this.response.body) {
+      this.settle();
+      return;
+    }
+    
+    const reader = this.response.body.getReader();
+    let finished = false;
+    try {
+      while (true) {
+        const {done, value} = await this.reading(reader, reader.read());
+        if (done) {
+          finished = true;
+          return;
+        }
+        yield value;
+      }
+    } finally {
+      if (!finished) {
+        // Stopped early or failed: release the connection
+        await reader.cancel().catch(() => undefined);
+      }
+      reader.releaseLock();
+      this.settle();
+    }
+  }
+  
+  /**
+   * Iterates over the body line by line, accepting `\n` and `\r\n` line endings
+   */
+  async* lines(): AsyncGenerator<string, void, undefined> {
+    const decoder = new TextDecoder();
+    let buffered = '';
+    
+    for await (const chunk of this.stream()) {
+      buffered += decoder.decode(chunk, {stream: true});
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      for (const line of lines) {
+        yield line.endsWith('\r') ? line.slice(0, -1) : line;
+      }
+    }
     
-    const contentType = this.response.headers.get('content-type') || '';
+    buffered += decoder.decode();
+    if (buffered) {
+      yield buffered.endsWith('\r') ? buffered.slice(0, -1) : buffered;
+    }
+  }
+  
+  /**
+   * Iterates over a newline-delimited JSON body, one parsed value per non-empty line
+   */
+  async* ndjson<T = unknown>(): AsyncGenerator<T, void, undefined> {
+    for await (const line of this.lines()) {
+      if (!line.trim()) {
+        continue;
+      }
+      
+      let value: T;
+      try {
+        value = JSON.parse(line);
+      } catch (error) {
+        throw new WefyParseError('application/x-ndjson', error);
+      }
+      yield value;
+    }
+  }
+  
+  async auto(): Promise<Data> {
+    await this.responseReady;
+    if (!this.response) {
+      throw new Error('Response not ready');
+    }
     
+    return validateData(await this.readByContentType(this.response.headers.get('content-type') || ''), this.options.schema);
+  }
+  
+  /**
+   * Reads the whole body of `response` under the read timeout, resolving to a buffered copy
+   */
+  private async buffer(response: Response): Promise<Response> {
+    const chunks: Uint8Array[] = [];
+    try {
+      if (response.body) {
+        const reader = response.body.getReader();
+        await this.reading(reader, (async () => {
+          for (; ;) {
+            const {done, value} = await reader.read();
+            if (done) {
+              return;
+            }
+            chunks.push(value);
+          }
+        })());
+      }
+    } finally {
+      this.settle();
+    }
+    return new Response(chunks.length ? new Blob(chunks) : null, {headers: response.headers});
+  }
+  
+  /**
+   * Runs `read` of `reader` under the read timeout, cancelling the body when it times out
+   */
+  private async reading<T>(reader: ReadableStreamDefaultReader<Uint8Array>, read: Promise<T>): Promise<T> {
+    this.readers.add(reader);
+    try {
+      return await withReadTimeout(Promise.race([read, this.aborted]), this.options, (error) => this.cancel(error));
+    } finally {
+      this.readers.delete(reader);
+    }
+  }
+  
+  /**
+   * Runs once the body was read, failed or was cancelled: stops listening for aborts and calls `options.onSettled`
+   */
+  private settle(): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+    this.options.signal?.removeEventListener('abort', this.onAbort);
+    this.options.onSettled?.();
+  }
+  
+  /**
+   * Cancels the reads in progress and the body. A copy of the body only stops the transfer once
+   * the response it was cloned from is cancelled too.
+   */
+  private cancel(reason: unknown): void {
+    for (const reader of this.readers) {
+      reader.cancel(reason).catch(() => undefined);
+    }
+    const body = this.response?.body;
+    if (body && !body.locked) {
+      body.cancel(reason).catch(() => undefined);
+    }
+  }
+  
+  private readByContentType(contentType: string): Promise<Data> {
     if (contentType.includes('application/json')) {
       return this.json<Data>();
     }
@@ -187,4 +409,72 @@ class WefyResponse<Data = unknown> extends Promise<Data> {
   }
 }
 
-export {WefyResponse};
\ No newline at end of file
+/**
+ * Response of a request sent with `parse: false`. Resolves once headers arrived and leaves the body for a
+ * single `stream()`, `lines()`, `ndjson()` or read method, each read running under the request's read timeout.
+ * Unlike `WefyResponse` it is not a promise, so requests can resolve to it.
+ */
+class WefyStreamResponse<Data = unknown> {
+  private readonly body: WefyResponse<Data>;
+  
+  constructor(private readonly response: Response, options: WefyResponseOptions = {}) {
+    this.body = new WefyResponse<Data>(response, {...options, parse: false});
+  }
+  
+  get ok(): boolean {
+    return this.response.ok;
+  }
+  
+  get status(): number {
+    return this.response.status;
+  }
+  
+  get headers(): Headers {
+    return this.response.headers;
+  }
+  
+  raw(): Response {
+    return this.response;
+  }
+  
+  stream(): AsyncGenerator<Uint8Array, void, undefined> {
+    return this.body.stream();
+  }
+  
+  lines(): AsyncGenerator<string, void, undefined> {
+    return this.body.lines();
+  }
+  
+  ndjson<T = unknown>(): AsyncGenerator<T, void, undefined> {
+    return this.body.ndjson<T>();
+  }
+  
+  json<T = Data>(): Promise<T> {
+    return this.body.json<T>();
+  }
+  
+  text(): Promise<string> {
+    return this.body.text();
+  }
+  
+  blob(): Promise<Blob> {
+    return this.body.blob();
+  }
+  
+  formData(): Promise<FormData> {
+    return this.body.formData();
+  }
+  
+  arrayBuffer(): Promise<ArrayBuffer> {
+    return this.body.arrayBuffer();
+  }
+  
+  /**
+   * Reads the body by its content type and validates it against the request's schema
+   */
+  auto(): Promise<Data> {
+    return this.body.auto();
+  }
+}
+
+export {WefyResponse, WefyStreamResponse};
\ No newline at end of file
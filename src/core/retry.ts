@@ -0,0 +1,145 @@
+import {WefyError, WefyHttpError, WefyTimeoutError} from "@/core/error.ts";
+import {HttpMethod, WefyRetryConfig, WefyRetryOptions} from "@/core/types.ts";
+
+export type ResolvedRetryOptions = Required<Omit<WefyRetryOptions, "shouldRetry">> & Pick<WefyRetryOptions, "shouldRetry">;
+
+export const defaultRetryOptions: ResolvedRetryOptions = {
+  attempts: 3,
+  backoff: "exponential",
+  delay: 300,
+  maxDelay: 30_000,
+  jitter: true,
+  methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+  statuses: [408, 425, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryOnTimeout: true,
+  respectRetryAfter: true,
+};
+
+interface RetryContext {
+  method: HttpMethod;
+  url: string;
+  signal?: AbortSignal | null;
+  /**
+   * Errors raised because the caller aborted are never retried
+   */
+  isAbort: (error: unknown) => boolean;
+}
+
+function normalize(config: WefyRetryConfig | undefined): Partial<WefyRetryOptions> | undefined {
+  if (config === undefined) return undefined;
+  if (config === false) return {attempts: 1};
+  if (config === true) return {};
+  if (typeof config === "number") return {attempts: config};
+  return config;
+}
+
+/**
+ * Merges client and request retry configuration, returning null when retries are disabled
+ */
+export function resolveRetryOptions(...configs: (WefyRetryConfig | undefined)[]): ResolvedRetryOptions | null {
+  const normalized = configs.map(normalize);
+  if (normalized.every((config) => config === undefined)) {
+    return null;
+  }
+
+  const options: ResolvedRetryOptions = Object.assign({}, defaultRetryOptions, ...normalized);
+  return options.attempts > 1 ? options : null;
+}
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date, in milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before the next attempt according to the backoff strategy, without jitter
+ */
+export function backoffDelay(attempt: number, options: ResolvedRetryOptions): number {
+  const {backoff, delay, maxDelay} = options;
+  const base = typeof backoff === "function" ? backoff(attempt) : backoff === "exponential" ? delay * 2 ** (attempt - 1) : backoff === "linear" ? delay * attempt : delay;
+  return Math.min(Math.max(0, base), maxDelay);
+}
+
+function applyJitter(delay: number, jitter: ResolvedRetryOptions["jitter"]): number {
+  const ratio = jitter === true ? 1 : jitter === false ? 0 : Math.min(Math.max(jitter, 0), 1);
+  return delay - delay * ratio * Math.random();
+}
+
+/**
+ * Resolves after `ms`, or rejects with the abort reason as soon as `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, {once: true});
+  });
+}
+
+function isRetryable(error: unknown, options: ResolvedRetryOptions, context: RetryContext): boolean {
+  if (context.isAbort(error)) return false;
+  if (error instanceof WefyHttpError) return options.statuses.includes(error.status);
+  if (error instanceof WefyTimeoutError) return options.retryOnTimeout;
+  if (error instanceof WefyError) return false;
+  return options.retryOnNetworkError;
+}
+
+/**
+ * Runs `operation` until it succeeds or the retry policy gives up. `operation` receives the
+ * 1-based attempt number; the last error is rethrown once retries are exhausted.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: ResolvedRetryOptions | null, context: RetryContext): Promise<T> {
+  const methodAllowed = options?.methods.some((method) => method.toUpperCase() === context.method.toUpperCase());
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!options || !methodAllowed || attempt >= options.attempts || context.isAbort(error)) {
+        throw error;
+      }
+
+      const retry = options.shouldRetry ? await options.shouldRetry({
+        error, attempt, method: context.method, url: context.url,
+      }) : isRetryable(error, options, context);
+      if (!retry) {
+        throw error;
+      }
+
+      let delay = applyJitter(backoffDelay(attempt, options), options.jitter);
+      if (options.respectRetryAfter && error instanceof WefyHttpError) {
+        const retryAfter = parseRetryAfter(error.response.headers.get("Retry-After"));
+        if (retryAfter !== undefined) {
+          if (retryAfter > options.maxDelay) {
+            throw error;
+          }
+          delay = retryAfter;
+        }
+      }
+
+      await sleep(delay, context.signal);
+    }
+  }
+}
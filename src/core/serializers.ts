@@ -0,0 +1,67 @@
+import {WefyError} from "@/core/error.ts";
+import {WefyRequestBody, WefySerializers} from "@/core/types.ts";
+
+/**
+ * Serializers available to every client, keyed by MIME type
+ */
+export const defaultSerializers: WefySerializers = {
+  "application/json": (body) => JSON.stringify(body),
+  "application/x-www-form-urlencoded": (body) => {
+    const form = new URLSearchParams();
+    for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+      if (value === undefined || value === null) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        form.append(key, String(item));
+      }
+    }
+    return form;
+  },
+};
+
+/**
+ * Checks whether fetch accepts the body as-is
+ */
+export function isBodyInit(body: unknown): body is BodyInit {
+  return typeof body === "string"
+    || body instanceof Blob
+    || body instanceof ArrayBuffer
+    || ArrayBuffer.isView(body)
+    || body instanceof FormData
+    || body instanceof URLSearchParams
+    || (typeof ReadableStream !== "undefined" && body instanceof ReadableStream);
+}
+
+/**
+ * Resolves the serializer for a content type, treating `+json` suffixed vendor types as JSON
+ */
+function findSerializer(contentType: string, serializers: WefySerializers) {
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  const serializer = Object.entries(serializers).find(([type]) => type.toLowerCase() === mimeType)?.[1];
+  if (!serializer && mimeType.endsWith("+json")) {
+    return serializers["application/json"];
+  }
+  return serializer;
+}
+
+/**
+ * Turns a request body into something fetch can send. `BodyInit` values pass through untouched;
+ * other values are serialized according to the `Content-Type` header, which defaults to JSON and
+ * is set on `headers` when missing.
+ */
+export function serializeBody(body: WefyRequestBody | undefined, headers: Headers, serializers: WefySerializers = defaultSerializers): BodyInit | null | undefined {
+  if (body === undefined || body === null || isBodyInit(body)) {
+    return body;
+  }
+  
+  if (!headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  
+  const contentType = headers.get("Content-Type")!;
+  const serializer = findSerializer(contentType, serializers);
+  if (!serializer) {
+    throw new WefyError(`No serializer registered for content-type: ${contentType}`);
+  }
+  
+  return serializer(body);
+}
@@ -1,3 +1,17 @@
+import type {WefyExtension} from "@/extension/types.ts";
+import type {WefyCacheOptions} from "@/cache/types.ts";
+import type {WefyFetch, WefyTransport} from "@/transport/types.ts";
+import type {WefyAuthStrategy} from "@/auth/types.ts";
+import type {WefyQueueOptions} from "@/queue/types.ts";
+import type {WefyRateLimitOptions} from "@/ratelimit/types.ts";
+import type {WefyRateLimiter} from "@/ratelimit/limiter.ts";
+import type {WefyCircuitBreakerOptions} from "@/circuit/types.ts";
+import type {WefyCircuitBreaker} from "@/circuit/breaker.ts";
+import type {WefyStreamResponse} from "@/core/response.ts";
+
+/**
+ * Standard methods, any other string is sent as a custom verb (`PROPFIND`, `QUERY`, ...)
+ */
 export type HttpMethod =
   | "GET"
   | "POST"
@@ -5,16 +19,154 @@ export type HttpMethod =
   | "PATCH"
   | "DELETE"
   | "HEAD"
-  | "OPTIONS";
+  | "OPTIONS"
+  | (string & {});
+
+export type ParamPrimitive = string | number | boolean | Date | null | undefined;
+
+/**
+ * Query parameter value, arrays and records may be nested
+ */
+export type ParamValue = ParamPrimitive | ReadonlyArray<ParamValue> | { [key: string]: ParamValue };
+
+export type Params = Record<string, ParamValue>;
+
+/**
+ * How arrays are written to the query string:
+ * `repeat` (`a=1&a=2`), `brackets` (`a[]=1&a[]=2`), `indices` (`a[0]=1&a[1]=2`) or `comma` (`a=1,2`)
+ */
+export type WefyArrayFormat = "repeat" | "brackets" | "indices" | "comma";
+
+/**
+ * How `null` query parameters are written: left out, as `a=` or as `a=null`. `undefined` is always left out.
+ */
+export type WefyNullFormat = "skip" | "empty" | "literal";
+
+/**
+ * Builds the query string of a request from its params, with or without the leading `?`
+ */
+export type WefyParamsSerializer = (params: Params) => string;
+
+/**
+ * Values of the `:name` segments and `{name}` placeholders of a path
+ */
+export type PathParams = Record<string, string | number>;
+
+type Characters<S extends string> = S extends `${infer Char}${infer Rest}` ? Char | Characters<Rest> : never;
+
+type NameCharacter = Characters<"abcdefghijklmnopqrstuvwxyz0123456789_"> | Uppercase<Characters<"abcdefghijklmnopqrstuvwxyz">>;
+
+/**
+ * Longest run of name characters (`A-Z`, `a-z`, `0-9`, `_`) at the start of `S`
+ */
+type LeadingName<S extends string, Name extends string = ""> =
+  S extends `${infer Char}${infer Rest}` ? Char extends NameCharacter ? LeadingName<Rest, `${Name}${Char}`> : Name : Name;
+
+type PathOf<Path extends string> = Path extends `${infer Head}?${string}` ? PathOf<Head> : Path extends `${infer Head}#${string}` ? Head : Path;
+
+type PlaceholderNames<Path extends string> =
+  Path extends `${infer Head}{${infer Name}}${infer Tail}` ? PlaceholderNames<Head> | (Name extends "" ? never : LeadingName<Name> extends Name ? Name : never) | PlaceholderNames<Tail>
+    : Path extends `${string}/:${infer Rest}` ? Rest extends `${LeadingName<Rest>}${infer Tail}` ? Exclude<LeadingName<Rest>, ""> | PlaceholderNames<Tail> : never
+      : never;
+
+/**
+ * Names of the `:name` segments and `{name}` placeholders of a path literal. Names are made of
+ * `A-Z`, `a-z`, `0-9` and `_`, the query and fragment are not searched.
+ */
+export type PathParamNames<Path extends string> = PlaceholderNames<PathOf<Path>>;
+
+/**
+ * Config argument for a path, required along with `pathParams` when the path has placeholders
+ */
+export type WefyPathConfig<Path extends string, Config> = [PathParamNames<Path>] extends [never] ? [config?: Config]
+  : [config: Config & { pathParams: Record<PathParamNames<Path>, string | number> }];
+
+/**
+ * Request body accepted by Wefy. `BodyInit` values are sent as-is, anything else goes through a serializer.
+ */
+export type WefyRequestBody = RequestInit["body"] | object;
 
-export type Params = Record<
-  string,
-  string | number | boolean | undefined | (string | number | boolean)[]
->;
+export type WefyBodySerializer = (body: unknown) => BodyInit;
+
+/**
+ * Body serializers keyed by MIME type
+ */
+export type WefySerializers = Record<string, WefyBodySerializer>;
+
+export type WefyRetryBackoff = "exponential" | "linear" | "fixed" | ((attempt: number) => number);
+
+export interface WefyRetryContext {
+  error: unknown;
+  /**
+   * 1-based number of the attempt that just failed
+   */
+  attempt: number;
+  method: HttpMethod;
+  url: string;
+}
+
+export interface WefyRetryOptions {
+  /**
+   * Maximum number of attempts, including the first one (default: 3)
+   */
+  attempts?: number;
+  /**
+   * Delay growth between attempts (default: "exponential")
+   */
+  backoff?: WefyRetryBackoff;
+  /**
+   * Base delay in milliseconds (default: 300)
+   */
+  delay?: number;
+  /**
+   * Upper bound for a single delay in milliseconds, also the longest `Retry-After` honoured (default: 30000)
+   */
+  maxDelay?: number;
+  /**
+   * Randomizes delays; `true` is full jitter, a number the randomized fraction of the delay (default: true)
+   */
+  jitter?: boolean | number;
+  /**
+   * Methods that may be retried (default: idempotent methods GET, HEAD, OPTIONS, PUT, DELETE)
+   */
+  methods?: HttpMethod[];
+  /**
+   * Response statuses that trigger a retry (default: 408, 425, 429, 500, 502, 503, 504)
+   */
+  statuses?: number[];
+  retryOnNetworkError?: boolean;
+  retryOnTimeout?: boolean;
+  /**
+   * Waits for the `Retry-After` response header instead of the backoff delay (default: true)
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * Decides whether a failure is retried, replacing the status and error checks.
+   * Only consulted for retryable methods while attempts remain.
+   */
+  shouldRetry?: (context: WefyRetryContext) => boolean | Promise<boolean>;
+}
+
+/**
+ * `true` enables the defaults, a number sets the attempts and `false` disables retries
+ */
+export type WefyRetryConfig = boolean | number | WefyRetryOptions;
 
 export interface SanitizeUrlOptions {
   encode?: boolean;
   preserveEncoding?: boolean;
+  /**
+   * Array format of query parameters (default: `repeat`). Nested records are always written as `a[b]=1`.
+   */
+  arrayFormat?: WefyArrayFormat;
+  /**
+   * Handling of `null` query parameters (default: `skip`)
+   */
+  nulls?: WefyNullFormat;
+  /**
+   * Replaces the built-in query serialization, its output is appended to the URL as-is
+   */
+  paramsSerializer?: WefyParamsSerializer;
 }
 
 /**
@@ -23,14 +175,209 @@ export interface SanitizeUrlOptions {
 export interface WefyConfig extends Partial<SanitizeUrlOptions> {
   baseUrl: string;
   options?: Omit<RequestInit, "method" | "body">;
+  /**
+   * Milliseconds to wait for response headers, 0 disables it (default: 5000)
+   */
   timeout?: number;
+  /**
+   * Milliseconds allowed for reading the response body once headers arrived, 0 or unset disables it
+   */
+  readTimeout?: number;
+  /**
+   * Decides which response statuses resolve; others reject with a `WefyHttpError`.
+   * Defaults to accepting 2xx statuses. Not applied to raw requests.
+   */
+  validateStatus?: (status: number) => boolean;
+  /**
+   * Retry policy, request settings are merged over client settings
+   */
+  retry?: WefyRetryConfig;
+  /**
+   * Body serializers keyed by MIME type, merged over the built-in JSON and form serializers
+   */
+  serializers?: WefySerializers;
+  /**
+   * Enables the HTTP response cache, `true` uses an in-memory store
+   */
+  cache?: boolean | WefyCacheOptions;
+  /**
+   * Shares one fetch between identical concurrent GET, HEAD and OPTIONS requests (default: true)
+   */
+  dedupe?: boolean;
+  /**
+   * Fetch implementation used instead of `globalThis.fetch`
+   */
+  fetch?: WefyFetch;
+  /**
+   * Sends requests in place of fetch, takes precedence over `fetch`
+   */
+  transport?: WefyTransport;
+  /**
+   * Adds credentials to every request, see `bearerAuth`, `basicAuth` and `apiKeyAuth`
+   */
+  auth?: WefyAuthStrategy;
+  /**
+   * Limits the requests running at once, a number limits them across all origins. Decorated clients and
+   * scopes share the queue of their parent unless they set their own limits.
+   */
+  maxConcurrent?: number | WefyQueueOptions;
+  /**
+   * Milliseconds a request may wait in the queue before rejecting with a `WefyTimeoutError`
+   */
+  queueTimeout?: number;
+  /**
+   * Delays requests over a token bucket limit and, unless disabled, the limit reported by response headers.
+   * Decorated clients and scopes share the limiter unless they set their own.
+   */
+  rateLimit?: WefyRateLimitOptions | WefyRateLimiter;
+  /**
+   * Fails requests fast with a `WefyCircuitOpenError` while their origin or scope keeps failing.
+   * Decorated clients and scopes share the breaker unless they set their own.
+   */
+  circuitBreaker?: WefyCircuitBreakerOptions | WefyCircuitBreaker;
+  /**
+   * Extensions whose hooks run around every request, in priority order
+   */
+  extensions?: ReadonlyArray<WefyExtension>;
 }
 
+/**
+ * Validator interface shared by schema libraries (zod, valibot, arktype, ...), see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaV1.Result<Output> | Promise<StandardSchemaV1.Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+export declare namespace StandardSchemaV1 {
+  type Result<Output> = { readonly value: Output; readonly issues?: undefined } | { readonly issues: ReadonlyArray<Issue> };
+  
+  interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+  }
+  
+  type InferInput<Schema extends StandardSchemaV1> = NonNullable<Schema["~standard"]["types"]>["input"];
+  
+  type InferOutput<Schema extends StandardSchemaV1> = NonNullable<Schema["~standard"]["types"]>["output"];
+}
+
+/**
+ * Response data of a request: the schema output when the config carries a schema, `Fallback` otherwise.
+ * Requests sent with `parse: false` resolve to a `WefyStreamResponse` of that data instead.
+ */
+export type InferResponseData<Config, Fallback> = Config extends { parse: false } ? WefyStreamResponse<InferParsedData<Config, Fallback>> : InferParsedData<Config, Fallback>;
+
+type InferParsedData<Config, Fallback> = Config extends { schema: infer Schema extends StandardSchemaV1 } ? StandardSchemaV1.InferOutput<Schema> : Fallback;
+
 /**
  * Request configuration interface
  * @template Body - Type of the request body
  */
-export interface WefyRequestConfig extends Omit<WefyConfig, "baseUrl" | "options"> {
+export interface WefyRequestConfig extends Omit<WefyConfig, "baseUrl" | "options" | "extensions" | "cache" | "fetch" | "transport" | "auth" | "maxConcurrent" | "rateLimit" | "circuitBreaker"> {
   params?: Params;
+  /**
+   * Fills the `:name` segments and `{name}` placeholders of the path, encoded as path segments
+   */
+  pathParams?: PathParams;
+  /**
+   * Overrides the client's auth strategy, `false` sends the request without credentials
+   */
+  auth?: WefyAuthStrategy | false;
+  /**
+   * `false` bypasses the client cache for this request
+   */
+  cache?: boolean;
   options?: RequestInit;
+  /**
+   * Validates the parsed response body, rejecting with a `WefyValidationError` when it does not match
+   */
+  schema?: StandardSchemaV1;
+  /**
+   * `false` resolves the request to a `WefyStreamResponse` once headers arrived instead of parsing the body,
+   * which is then read incrementally under the read timeout. Ignored by raw and HEAD requests.
+   */
+  parse?: boolean;
+  /**
+   * Position in the client queue, higher priorities are sent first (default: 0)
+   */
+  priority?: number;
+  /**
+   * Called as the response body is read
+   */
+  onDownloadProgress?: (event: WefyProgressEvent) => void;
+  /**
+   * Called as the request body is sent. Browsers cannot stream request bodies, there a single
+   * event is reported once the upload completed.
+   */
+  onUploadProgress?: (event: WefyProgressEvent) => void;
+}
+
+export interface WefyProgressEvent {
+  /**
+   * Bytes transferred so far
+   */
+  loaded: number;
+  /**
+   * Total bytes, undefined when unknown
+   */
+  total?: number;
+  /**
+   * Fraction of `total` transferred, between 0 and 1
+   */
+  progress?: number;
+  /**
+   * Average transfer rate in bytes per second
+   */
+  rate: number;
+  done: boolean;
+}
+
+/**
+ * Configuration of `send`, carrying the request body along with the other settings
+ */
+export interface WefySendInit<Body extends WefyRequestBody = WefyRequestBody> extends WefyRequestConfig {
+  body?: Body;
+}
+
+/**
+ * Result of a HEAD request: status and headers only, a HEAD response has no body
+ */
+export type WefyHeadResponse = Pick<Response, "ok" | "status" | "statusText" | "headers" | "url">;
+
+/**
+ * Phase of a request a `WefyTimeoutError` was raised in
+ */
+export type WefyTimeoutPhase = "connect" | "read" | "queue";
+
+export interface WefyResponseOptions {
+  /**
+   * Milliseconds allowed for each read of the body, 0 or unset disables it
+   */
+  readTimeout?: number;
+  /**
+   * Called when the read timeout elapses, used to cancel the underlying request
+   */
+  onReadTimeout?: () => void;
+  /**
+   * Cancels reading the body once aborted, reads in progress reject with its reason
+   */
+  signal?: AbortSignal;
+  /**
+   * Called once the body was fully read, failed or was cancelled
+   */
+  onSettled?: () => void;
+  /**
+   * Validates the parsed body before the response resolves
+   */
+  schema?: StandardSchemaV1;
+  /**
+   * `false` skips parsing the body up front: the response resolves to undefined once headers
+   * arrived and the body is left for a single `stream()`, `lines()`, `ndjson()` or read method
+   */
+  parse?: boolean;
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
-import {Params, SanitizeUrlOptions} from "./types";
+import {Params, PathParams, SanitizeUrlOptions} from "./types";
+import {WefyError, WefyPathParamError} from "./error";
+import {serializeParams} from "./params";
 
 /**
  * Combines multiple AbortSignals into a single signal
@@ -29,6 +31,13 @@ export function createSignal(...signals: (AbortSignal | null | undefined)[]): {
   };
 }
 
+/**
+ * Default status validation, accepting 2xx responses
+ */
+export function isSuccessStatus(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
 /**
  * Ensures fetch is available in the global context
  */
@@ -36,15 +45,72 @@ export function resolveFetch(): typeof fetch {
   if (typeof globalThis.fetch === "function") {
     return globalThis.fetch;
   }
-  throw new Error(`[Wefy] No global fetch available. Node version ${process.versions.node}. Please use Node.js 18+ or provide a custom fetch implementation.`);
+  throw new Error(`[Wefy] No global fetch available. Node version ${process.versions.node}. Please use Node.js 18+ or pass a fetch implementation or transport in the config.`);
+}
+
+const PATH_PARAM = /\/:([A-Za-z0-9_]+)|\{([A-Za-z0-9_]+)}/g;
+
+function encodeSegment(value: string, options: SanitizeUrlOptions): string {
+  if (!options.encode) {
+    return value;
+  }
+  // Existing escapes are kept when preserving encoding, everything else is encoded
+  return options.preserveEncoding ? value.split(/(%[0-9A-Fa-f]{2})/).map((part, index) => index % 2 ? part : encodeURIComponent(part)).join("") : encodeURIComponent(value);
 }
 
 /**
- * Sanitizes a URL by combining base URL, endpoint, and query parameters
+ * Fills the `:name` segments and `{name}` placeholders in the path of `endpoint`, names are made of `A-Za-z0-9_`
+ * @throws WefyPathParamError when a placeholder has no value or a value has no placeholder
+ */
+export function fillPathParams(endpoint: string, pathParams: PathParams, options: SanitizeUrlOptions = {encode: true}): string {
+  // Placeholders are only filled in the path, never in the query or fragment
+  const queryStart = endpoint.search(/[?#]/);
+  const path = queryStart === -1 ? endpoint : endpoint.slice(0, queryStart);
+  const missing: string[] = [];
+  const used = new Set<string>();
+  
+  const filled = path.replace(PATH_PARAM, (placeholder, segment: string | undefined, braced: string | undefined) => {
+    const name = segment ?? braced!;
+    const value = Object.prototype.hasOwnProperty.call(pathParams, name) ? pathParams[name] : undefined;
+    if (value === undefined || value === null) {
+      missing.push(name);
+      return placeholder;
+    }
+    used.add(name);
+    const encoded = encodeSegment(String(value), options);
+    return segment === undefined ? encoded : `/${encoded}`;
+  });
+  
+  const unused = Object.keys(pathParams).filter((name) => !used.has(name) && !missing.includes(name));
+  if (missing.length || unused.length) {
+    throw new WefyPathParamError(path, missing, unused);
+  }
+  return queryStart === -1 ? filled : filled + endpoint.slice(queryStart);
+}
+
+function decodeQueryComponent(component: string): string {
+  try {
+    return decodeURIComponent(component.replace(/\+/g, " "));
+  } catch {
+    return component;
+  }
+}
+
+/**
+ * Encodes a `key=value` pair of an endpoint query literally, escapes included
+ */
+function encodeQueryPair(pair: string): string {
+  const separator = pair.indexOf("=");
+  return separator === -1 ? encodeURIComponent(pair) : `${encodeURIComponent(pair.slice(0, separator))}=${encodeURIComponent(pair.slice(separator + 1))}`;
+}
+
+/**
+ * Sanitizes a URL by combining base URL, endpoint, and query parameters.
+ * With `encode`, keys and values are percent-encoded once, otherwise they are form-encoded.
  */
 export function sanitizeUrl(baseUrl: string, endpoint: string = "", params?: Params, options: SanitizeUrlOptions = {
   encode: false, preserveEncoding: true,
-}): URL {
+}, pathParams?: PathParams): URL {
   if (!baseUrl.trim()) {
     throw new TypeError("Base URL must be a non-empty string");
   }
@@ -52,7 +118,7 @@ export function sanitizeUrl(baseUrl: string, endpoint: string = "", params?: Par
   try {
     const base = new URL(baseUrl);
     
-    const [rawPath, ...queryParts] = endpoint.split("?");
+    const [rawPath, ...queryParts] = (pathParams ? fillPathParams(endpoint, pathParams, options) : endpoint).split("?");
     const endpointQuery = queryParts.join("?");
     
     let fullPath = base.pathname;
@@ -68,46 +134,60 @@ export function sanitizeUrl(baseUrl: string, endpoint: string = "", params?: Par
     
     const resolvedUrl = new URL(fullPath, base);
     
-    if (endpointQuery) {
-      try {
-        const searchParams = new URLSearchParams(endpointQuery);
-        searchParams.forEach((value, key) => {
-          if (key && value) {
-            resolvedUrl.searchParams.append(options.preserveEncoding ? key : encodeURIComponent(key), options.preserveEncoding ? value : encodeURIComponent(value));
-          }
-        });
-      } catch (e) {
-        console.warn("Failed to parse endpoint query string", e);
-      }
-    }
+    // The query is written directly so every component is encoded exactly once
+    let query = endpointQuery.split("&").filter((pair) => pair && !pair.startsWith("=")).map((pair) => options.preserveEncoding ? pair : encodeQueryPair(pair));
     
     if (params && typeof params === "object") {
-      Object.entries(params).forEach(([key, value]) => {
-        if (!key) return;
-        const processedKey = options.encode ? encodeURIComponent(key) : key;
-        
-        resolvedUrl.searchParams.delete(processedKey);
-        
-        if (value === undefined || value === null) return;
-        
-        const processValue = (val: string | number | boolean) => options.encode ? encodeURIComponent(String(val)) : String(val);
+      if (options.paramsSerializer) {
+        const serialized = options.paramsSerializer(params).replace(/^\?/, "");
+        if (serialized) {
+          query.push(serialized);
+        }
+      } else {
+        // Params replace endpoint query parameters of the same name, including their nested keys
+        const names = Object.keys(params);
+        query = query.filter((pair) => {
+          const key = decodeQueryComponent(pair.split("=")[0]);
+          return !names.some((name) => key === name || key.startsWith(`${name}[`));
+        });
         
-        if (Array.isArray(value)) {
-          value.forEach((item) => {
-            if (item !== undefined && item !== null) {
-              resolvedUrl.searchParams.append(processedKey, processValue(item));
-            }
-          });
-        } else {
-          resolvedUrl.searchParams.set(processedKey, processValue(value));
+        const entries = serializeParams(params, options, options.encode ? encodeURIComponent : (component) => component);
+        if (options.encode) {
+          query.push(...entries.map(([key, value]) => `${key}=${value}`));
+        } else if (entries.length) {
+          query.push(new URLSearchParams(entries).toString());
         }
-      });
+      }
     }
     
+    resolvedUrl.search = query.join("&");
+    
     return resolvedUrl;
   } catch (error) {
+    if (error instanceof WefyError) {
+      throw error;
+    }
     throw new Error(`Failed to construct URL: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-export const clonedRes = (response: Response) => response.clone()
\ No newline at end of file
+export const clonedRes = (response: Response) => response.clone()
+
+/**
+ * Merges header sources left to right, later sources override earlier ones
+ */
+export function mergeHeaders(...sources: (HeadersInit | undefined)[]): Headers {
+  const headers = new Headers();
+  for (const source of sources) {
+    if (!source) continue;
+    new Headers(source).forEach((value, key) => headers.set(key, value));
+  }
+  return headers;
+}
+
+/**
+ * Normalizes anything thrown into an Error instance
+ */
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -1,23 +1,76 @@
-import {HttpMethod, SanitizeUrlOptions, WefyConfig, WefyRequestConfig} from "@/core/types.ts";
-import {createSignal, resolveFetch, sanitizeUrl} from "@/core/utils.ts";
-import {WefyParseError, WefyTimeoutError} from "@/core/error.ts";
-import {WefyResponse} from "@/core/response.ts";
-import {produce} from "immer";
+import {
+  HttpMethod,
+  InferResponseData,
+  SanitizeUrlOptions,
+  WefyConfig,
+  WefyHeadResponse,
+  WefyRequestBody,
+  WefyPathConfig,
+  WefyRequestConfig,
+  WefySendInit
+} from "@/core/types.ts";
+import {createSignal, fillPathParams, isSuccessStatus, mergeHeaders, resolveFetch, sanitizeUrl, toError} from "@/core/utils.ts";
+import {WefyError, WefyHttpError, WefyTimeoutError} from "@/core/error.ts";
+import {WefyResponse, WefyStreamResponse} from "@/core/response.ts";
+import {defaultSerializers, serializeBody} from "@/core/serializers.ts";
+import {resolveRetryOptions, withRetry} from "@/core/retry.ts";
+import {WefyDeduplicator} from "@/core/dedupe.ts";
+import {trackDownload, trackUpload} from "@/core/progress.ts";
+import {cachePartition, WefyCache} from "@/cache/cache.ts";
+import {MemoryCacheStorage} from "@/cache/storage.ts";
+import {WefyCacheOptions} from "@/cache/types.ts";
+import {WefyFetch} from "@/transport/types.ts";
+import {WefyEventSource} from "@/sse/source.ts";
+import {authorize, refreshCredentials} from "@/auth/session.ts";
+import {WefySSEConfig} from "@/sse/types.ts";
+import {WefyInterceptorManager} from "@/interceptor/manager.ts";
+import {WefyInterceptedRequest, WefyInterceptors} from "@/interceptor/types.ts";
+import {defineContract} from "@/contract/define.ts";
+import {WefyRequestQueue} from "@/queue/queue.ts";
+import {WefyRateLimiter} from "@/ratelimit/limiter.ts";
+import {WefyCircuitBreaker} from "@/circuit/breaker.ts";
+import {WefyCircuitCall} from "@/circuit/types.ts";
+import {WefyPaginator} from "@/paginate/paginator.ts";
+import {linkPagination} from "@/paginate/strategies.ts";
+import {WefyPaginateConfig, WefyPaginationStrategy} from "@/paginate/types.ts";
+import {WefyContract, WefyContractClient, WefyContractContext} from "@/contract/types.ts";
+import {ExtensionError} from "@/extension/error.ts";
+import {WefyExtensionManager} from "@/extension/manager.ts";
+import {ExtensionOutgoingRequest, ExtensionRequest} from "@/extension/types.ts";
 
-type BaseWefy = Omit<Wefy, 'decorate' | 'raw' | 'scope' | 'request'> & {
-  raw: Omit<WefyRaw, 'makeRequest'>;
-};
+const DEDUPE_METHODS = new Set<string>(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Fetch function sending the requests of a client, never called with the client as `this`
+ */
+function resolveTransport({transport, fetch}: WefyConfig): WefyFetch {
+  if (transport) {
+    return (url, init) => transport.send(url, init);
+  }
+  const send = fetch ?? resolveFetch();
+  return (url, init) => send(url, init);
+}
 
-type ScopeMethod<Args extends unknown[] = unknown[], Return = unknown> = (...args: Args) => Return;
+function headResponse({ok, status, statusText, headers, url}: Response): WefyHeadResponse {
+  return {ok, status, statusText, headers, url};
+}
 
-type DecoratedWefy = BaseWefy;
+/**
+ * Declared as a method so parameters check bivariantly: methods with typed parameters, like contract methods, are accepted
+ */
+type ScopeMethod<Args extends unknown[] = unknown[], Return = unknown> = { method(...args: Args): Return }["method"];
 
 interface ScopeFactoryContext {
-  get: <ResponseData = unknown>(path: string, config?: WefyRequestConfig) => Promise<ResponseData>;
-  post: <ResponseData = unknown, RequestData extends RequestInit['body'] = undefined>(path: string, body?: RequestData, config?: WefyRequestConfig) => Promise<ResponseData>;
-  put: <ResponseData = unknown, RequestData extends RequestInit['body'] = undefined>(path: string, body?: RequestData, config?: WefyRequestConfig) => Promise<ResponseData>;
-  patch: <ResponseData = unknown, RequestData extends RequestInit['body'] = undefined>(path: string, body?: RequestData, config?: WefyRequestConfig) => Promise<ResponseData>;
-  delete: <ResponseData = unknown>(path: string, config?: WefyRequestConfig) => Promise<ResponseData>;
+  get: <ResponseData = unknown, Config extends WefyRequestConfig = WefyRequestConfig>(path: string, config?: Config) => Promise<InferResponseData<Config, ResponseData>>;
+  post: <ResponseData = unknown, RequestData extends WefyRequestBody = undefined, Config extends WefyRequestConfig = WefyRequestConfig>(path: string, body?: RequestData, config?: Config) => Promise<InferResponseData<Config, ResponseData>>;
+  put: <ResponseData = unknown, RequestData extends WefyRequestBody = undefined, Config extends WefyRequestConfig = WefyRequestConfig>(path: string, body?: RequestData, config?: Config) => Promise<InferResponseData<Config, ResponseData>>;
+  patch: <ResponseData = unknown, RequestData extends WefyRequestBody = undefined, Config extends WefyRequestConfig = WefyRequestConfig>(path: string, body?: RequestData, config?: Config) => Promise<InferResponseData<Config, ResponseData>>;
+  delete: <ResponseData = unknown, Config extends WefyRequestConfig = WefyRequestConfig>(path: string, config?: Config) => Promise<InferResponseData<Config, ResponseData>>;
+  head: (path: string, config?: WefyRequestConfig) => Promise<WefyHeadResponse>;
+  options: <ResponseData = unknown, Config extends WefyRequestConfig = WefyRequestConfig>(path: string, config?: Config) => Promise<InferResponseData<Config, ResponseData>>;
+  send: <ResponseData = unknown, Config extends WefySendInit = WefySendInit>(method: HttpMethod, path: string, init?: Config) => Promise<InferResponseData<Config, ResponseData>>;
+  sse: (path: string, config?: WefySSEConfig) => WefyEventSource;
+  paginate: Wefy['paginate'];
   decorate: <Config extends Partial<WefyConfig>>(config: Config) => ScopeFactoryContext;
   state: Map<string, unknown>;
 }
@@ -26,28 +79,72 @@ type ScopeInfo<T extends Record<string, ScopeMethod>> = {
   methods: T; state: Map<string, unknown>; config?: Partial<WefyConfig>;
 };
 
+type ScopeDefinition<T extends Record<string, ScopeMethod>> = T | ((ctx: ScopeFactoryContext) => T);
+
+/**
+ * Methods of a scope, which can hold nested scopes of their own
+ */
+type WefyScope<T extends Record<string, ScopeMethod>> = T & {
+  scope<Name extends string, Nested extends Record<string, ScopeMethod>>(name: Name, definition: ScopeDefinition<Nested>, config?: Partial<WefyConfig>): WefyScope<T> & { [K in Name]: WefyScope<Nested> };
+};
+
+/**
+ * Client added by `decorate`: it holds the scopes of the client it was derived from, not its decorations
+ */
+type DecoratedWefy<Client> = Wefy & {
+  [K in keyof Client as K extends keyof Wefy ? never : Client[K] extends Wefy ? never : K]: Client[K];
+};
+
+interface ScopeEntry {
+  info: ScopeInfo<Record<string, ScopeMethod>>;
+  definition: ScopeDefinition<Record<string, ScopeMethod>>;
+  /**
+   * Client the scope's methods send their requests with
+   */
+  client: Wefy;
+}
+
 abstract class HttpMethodsBase<ReturnType = unknown> {
-  get<ResponseData = ReturnType>(path: string, config?: WefyRequestConfig): Promise<ResponseData> {
-    return this.makeRequest<ResponseData>('GET', path, undefined, config);
+  get<ResponseData = ReturnType, Config extends WefyRequestConfig = WefyRequestConfig, Path extends string = string>(path: Path, ...[config]: WefyPathConfig<Path, Config>): Promise<InferResponseData<Config, ResponseData>> {
+    return this.makeRequest<InferResponseData<Config, ResponseData>>('GET', path, undefined, config);
+  }
+  
+  post<ResponseData = ReturnType, RequestData extends WefyRequestBody = undefined, Config extends WefyRequestConfig = WefyRequestConfig, Path extends string = string>(path: Path, body?: RequestData, ...[config]: WefyPathConfig<Path, Config>): Promise<InferResponseData<Config, ResponseData>> {
+    return this.makeRequest<InferResponseData<Config, ResponseData>, RequestData>('POST', path, body, config);
+  }
+  
+  put<ResponseData = ReturnType, RequestData extends WefyRequestBody = undefined, Config extends WefyRequestConfig = WefyRequestConfig, Path extends string = string>(path: Path, body?: RequestData, ...[config]: WefyPathConfig<Path, Config>): Promise<InferResponseData<Config, ResponseData>> {
+    return this.makeRequest<InferResponseData<Config, ResponseData>, RequestData>('PUT', path, body, config);
+  }
+  
+  patch<ResponseData = ReturnType, RequestData extends WefyRequestBody = undefined, Config extends WefyRequestConfig = WefyRequestConfig, Path extends string = string>(path: Path, body?: RequestData, ...[config]: WefyPathConfig<Path, Config>): Promise<InferResponseData<Config, ResponseData>> {
+    return this.makeRequest<InferResponseData<Config, ResponseData>, RequestData>('PATCH', path, body, config);
   }
   
-  post<ResponseData = ReturnType, RequestData extends RequestInit['body'] = undefined>(path: string, body?: RequestData, config?: WefyRequestConfig): Promise<ResponseData> {
-    return this.makeRequest<ResponseData, RequestData>('POST', path, body, config);
+  delete<ResponseData = ReturnType, Config extends WefyRequestConfig = WefyRequestConfig, Path extends string = string>(path: Path, ...[config]: WefyPathConfig<Path, Config>): Promise<InferResponseData<Config, ResponseData>> {
+    return this.makeRequest<InferResponseData<Config, ResponseData>>('DELETE', path, undefined, config);
   }
   
-  put<ResponseData = ReturnType, RequestData extends RequestInit['body'] = undefined>(path: string, body?: RequestData, config?: WefyRequestConfig): Promise<ResponseData> {
-    return this.makeRequest<ResponseData, RequestData>('PUT', path, body, config);
+  /**
+   * Resolves to the status and headers of the response, the body is never read
+   */
+  head<Path extends string = string>(path: Path, ...[config]: WefyPathConfig<Path, WefyRequestConfig>): Promise<WefyHeadResponse> {
+    return this.makeRequest<WefyHeadResponse>('HEAD', path, undefined, config);
   }
   
-  patch<ResponseData = ReturnType, RequestData extends RequestInit['body'] = undefined>(path: string, body?: RequestData, config?: WefyRequestConfig): Promise<ResponseData> {
-    return this.makeRequest<ResponseData, RequestData>('PATCH', path, body, config);
+  options<ResponseData = ReturnType, Config extends WefyRequestConfig = WefyRequestConfig, Path extends string = string>(path: Path, ...[config]: WefyPathConfig<Path, Config>): Promise<InferResponseData<Config, ResponseData>> {
+    return this.makeRequest<InferResponseData<Config, ResponseData>>('OPTIONS', path, undefined, config);
   }
   
-  delete<ResponseData = ReturnType>(path: string, config?: WefyRequestConfig): Promise<ResponseData> {
-    return this.makeRequest<ResponseData>('DELETE', path, undefined, config);
+  /**
+   * Sends a request with any method, including custom verbs such as `PROPFIND` or `QUERY`
+   */
+  send<ResponseData = ReturnType, Config extends WefySendInit = WefySendInit, Path extends string = string>(method: HttpMethod, path: Path, ...[init]: WefyPathConfig<Path, Config>): Promise<InferResponseData<Config, ResponseData>> {
+    const {body, ...config} = init ?? {};
+    return this.makeRequest<InferResponseData<Config, ResponseData>, WefyRequestBody>(method, path, body, config);
   }
   
-  protected abstract makeRequest<ResponseData = ReturnType, RequestData extends RequestInit['body'] = undefined>(method: HttpMethod, path: string, body?: RequestData, config?: WefyRequestConfig): Promise<ResponseData>;
+  protected abstract makeRequest<ResponseData = ReturnType, RequestData extends WefyRequestBody = undefined>(method: HttpMethod, path: string, body?: RequestData, config?: WefyRequestConfig): Promise<ResponseData>;
 }
 
 class WefyRaw extends HttpMethodsBase {
@@ -55,7 +152,7 @@ class WefyRaw extends HttpMethodsBase {
     super();
   }
   
-  protected async makeRequest<ResponseData, RequestData extends RequestInit['body']>(method: HttpMethod, path: string, body?: RequestData, config?: WefyRequestConfig): Promise<ResponseData> {
+  protected async makeRequest<ResponseData, RequestData extends WefyRequestBody>(method: HttpMethod, path: string, body?: RequestData, config?: WefyRequestConfig): Promise<ResponseData> {
     const response = await this.wefy.request<ResponseData, RequestData>(method, path, body, config, true);
     return response as ResponseData;
   }
@@ -63,16 +160,52 @@ class WefyRaw extends HttpMethodsBase {
 
 class Wefy extends HttpMethodsBase {
   public readonly raw: WefyRaw;
-  private readonly fetch: typeof fetch;
-  private scopes = new Map<string, ScopeInfo<Record<string, ScopeMethod>>>();
+  public readonly interceptors: WefyInterceptors;
+  /**
+   * Queue enforcing `maxConcurrent`, shared with decorated clients and scopes without limits of their own
+   */
+  public readonly queue: WefyRequestQueue;
+  /**
+   * Limiter enforcing `rateLimit`, null without one
+   */
+  public readonly rateLimiter: WefyRateLimiter | null;
+  /**
+   * Breaker enforcing `circuitBreaker`, null without one
+   */
+  public readonly circuitBreaker: WefyCircuitBreaker | null;
+  private readonly fetch: WefyFetch;
+  private readonly extensions: WefyExtensionManager;
+  private readonly cache: WefyCache | null;
+  private readonly inFlight = new WefyDeduplicator();
+  // Keyed by dotted path, parents before their nested scopes
+  private readonly scopes = new Map<string, ScopeEntry>();
+  // Clients added by `decorate`, carried over to the copies it returns
+  private readonly decorations = new Map<string, Wefy>();
+  // Dotted path of the scope this client sends requests for
+  private scopePath?: string;
   
-  private constructor(private readonly config: WefyConfig) {
+  private constructor(private readonly config: WefyConfig, extensions?: WefyExtensionManager, interceptors?: WefyInterceptors, queue?: WefyRequestQueue) {
     super();
     this.validateConfig(config);
+    // Resolve the cache storage once so derived clients share it
+    const cacheOptions: WefyCacheOptions | undefined = config.cache === true ? {} : config.cache || undefined;
+    const cache = cacheOptions && {...cacheOptions, storage: cacheOptions.storage ?? new MemoryCacheStorage()};
+    // Resolved once as well, derived clients share the limiter through the config
+    const rateLimit = config.rateLimit && !(config.rateLimit instanceof WefyRateLimiter) ? new WefyRateLimiter(config.rateLimit) : config.rateLimit;
+    const circuitBreaker = config.circuitBreaker && !(config.circuitBreaker instanceof WefyCircuitBreaker) ? new WefyCircuitBreaker(config.circuitBreaker) : config.circuitBreaker;
     this.config = {
-      ...config, timeout: config.timeout ?? 5000
+      ...config, timeout: config.timeout ?? 5000, validateStatus: config.validateStatus ?? isSuccessStatus, cache, rateLimit, circuitBreaker
+    };
+    this.fetch = resolveTransport(config);
+    this.cache = cache ? new WefyCache(cache) : null;
+    this.extensions = extensions ?? new WefyExtensionManager(config.extensions);
+    this.interceptors = {
+      request: new WefyInterceptorManager<WefyInterceptedRequest>(interceptors?.request),
+      response: new WefyInterceptorManager<Response>(interceptors?.response),
     };
-    this.fetch = resolveFetch();
+    this.rateLimiter = rateLimit ?? null;
+    this.circuitBreaker = circuitBreaker ?? null;
+    this.queue = queue ?? new WefyRequestQueue(typeof config.maxConcurrent === 'number' ? {max: config.maxConcurrent} : config.maxConcurrent);
     this.raw = new WefyRaw(this);
   }
   
@@ -80,91 +213,232 @@ class Wefy extends HttpMethodsBase {
     return new Wefy(typeof config === "string" ? {baseUrl: config} : config);
   }
   
-  async request<ResponseData = unknown, RequestBody extends RequestInit['body'] = undefined>(method: HttpMethod, path: string, body?: RequestBody, config?: WefyRequestConfig, raw?: boolean): Promise<WefyResponse<ResponseData> | Response> {
-    const timeout = config?.timeout ?? this.config.timeout;
-    const controller = new AbortController();
-    const {params} = config || {};
+  /**
+   * Turns an endpoint contract into a scope factory with one typed method per endpoint:
+   * `api.scope('users', Wefy.define({get: {method: 'GET', path: '/users/:id', response: typed<User>()}}))`
+   */
+  static define<const Contract extends WefyContract>(contract: Contract): (ctx: WefyContractContext) => WefyContractClient<Contract> {
+    return defineContract(contract);
+  }
+  
+  request<ResponseData = unknown, RequestBody extends WefyRequestBody = undefined>(method: HttpMethod, path: string, body: RequestBody | undefined, config: WefyRequestConfig | undefined, raw: true): Promise<Response>;
+  
+  request<ResponseData = unknown, RequestBody extends WefyRequestBody = undefined>(method: HttpMethod, path: string, body?: RequestBody, config?: WefyRequestConfig, raw?: false): Promise<ResponseData>;
+  
+  async request<ResponseData = unknown, RequestBody extends WefyRequestBody = undefined>(method: HttpMethod, path: string, body?: RequestBody, config?: WefyRequestConfig, raw?: boolean): Promise<ResponseData | Response> {
+    const {response, data} = await this.execute<ResponseData, RequestBody>(method, path, body, config, raw);
+    return raw ? response : data as ResponseData;
+  }
+  
+  /**
+   * Sends a request through extensions, auth and retries, resolving to the response and, unless raw, its parsed body
+   */
+  private async execute<ResponseData, RequestBody extends WefyRequestBody>(method: HttpMethod, path: string, body?: RequestBody, config?: WefyRequestConfig, raw?: boolean): Promise<{ response: Response; data: ResponseData | undefined }> {
+    await this.extensions.initialize(this.config);
+    
+    const startedAt = Date.now();
+    const request: ExtensionRequest = {method, endpoint: path, config};
+    let success = false;
+    let attempts = 0;
     
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, timeout);
+    const userSignals = [config?.options?.signal, this.config.options?.signal];
+    const userSignal = createSignal(...userSignals);
+    const isAbort = () => userSignals.some(signal => signal?.aborted);
     
     try {
+      await this.extensions.executeHook('beforeRequest', request);
+      const {endpoint} = request;
+      const {params, pathParams} = request.config || {};
+      
       const sanitizeOptions: SanitizeUrlOptions = {
-        encode: config?.encode ?? true, preserveEncoding: config?.preserveEncoding ?? true
+        encode: request.config?.encode ?? true, preserveEncoding: request.config?.preserveEncoding ?? true,
+        arrayFormat: request.config?.arrayFormat ?? this.config.arrayFormat,
+        nulls: request.config?.nulls ?? this.config.nulls,
+        paramsSerializer: request.config?.paramsSerializer ?? this.config.paramsSerializer,
       };
       
       // noinspection HttpUrlsUsage
-      const isAbsoluteUrl = path.startsWith("https://") || path.startsWith("http://");
-      const url = sanitizeUrl(isAbsoluteUrl ? path : this.config.baseUrl, isAbsoluteUrl ? "" : path, params, sanitizeOptions);
-      
-      const baseOptions = {...this.config.options};
-      const requestOptions = {...config?.options};
-      delete baseOptions?.headers;
-      delete requestOptions?.headers;
-      
-      const fetchOptions: RequestInit = {
-        ...baseOptions, ...requestOptions, method, headers: new Headers({
-          ...this.config.options?.headers, ...config?.options?.headers
-        }), body, signal: createSignal(controller.signal, config?.options?.signal, this.config.options?.signal).signal
-      };
-      
-      const resPromise = this.fetch(url, fetchOptions).catch(error => {
-        if (error.name === 'AbortError') {
-          throw new WefyTimeoutError(timeout);
+      const isAbsoluteUrl = endpoint.startsWith("https://") || endpoint.startsWith("http://");
+      let url: URL;
+      if (isAbsoluteUrl) {
+        const filled = pathParams ? fillPathParams(endpoint, pathParams, sanitizeOptions) : endpoint;
+        if (params) {
+          // sanitizeUrl keeps only the path of its base, so the query of an absolute URL is passed on as the endpoint
+          const [absoluteUrl, ...query] = filled.split("?");
+          url = sanitizeUrl(absoluteUrl, query.length ? `?${query.join("?")}` : "", params, sanitizeOptions);
+        } else {
+          // Without params there is nothing to merge, the URL is sent as given, such as a followed Link target
+          url = new URL(filled);
         }
-        throw error;
+      } else {
+        url = sanitizeUrl(this.config.baseUrl, endpoint, params, sanitizeOptions, pathParams);
+      }
+      
+      const headers = mergeHeaders(this.config.options?.headers, request.config?.options?.headers);
+      const payload = serializeBody(body, headers, {
+        ...defaultSerializers, ...this.config.serializers, ...request.config?.serializers
       });
       
-      if (raw) {
-        return resPromise;
+      const outgoing: ExtensionOutgoingRequest = {
+        url: url.toString(), method: request.method, headers: Object.fromEntries(headers), body: payload,
+      };
+      const auth = request.config?.auth === false ? null : request.config?.auth ?? this.config.auth ?? null;
+      let generation = auth ? await authorize(auth, outgoing) : 0;
+      await this.extensions.executeHook('onRequest', outgoing);
+      
+      // A stream can only be sent once
+      const replayable = !(typeof ReadableStream !== "undefined" && outgoing.body instanceof ReadableStream);
+      const retry = replayable ? resolveRetryOptions(this.config.retry, request.config?.retry) : null;
+      
+      const send = () => withRetry((attempt) => {
+        attempts = attempt;
+        return this.exchange<ResponseData>(outgoing, request.config, {
+          raw, userSignals, startedAt, partition: auth ? cachePartition(auth) : undefined,
+        });
+      }, retry, {method: outgoing.method, url: outgoing.url, signal: userSignal.signal, isAbort});
+      
+      // Rejected credentials are refreshed once, then the request is sent again
+      const replay = auth?.refresh && replayable ? async () => {
+        await refreshCredentials(auth, generation);
+        generation = await authorize(auth, outgoing);
+        return send();
+      } : null;
+      
+      let result: Awaited<ReturnType<typeof send>>;
+      try {
+        result = await send();
+      } catch (error) {
+        if (!replay || !(error instanceof WefyHttpError) || error.status !== 401) {
+          throw error;
+        }
+        result = await replay();
+      }
+      if (replay && raw && result.response.status === 401) {
+        result = await replay();
       }
+      const {response, data} = result;
       
-      return new WefyResponse<ResponseData>(resPromise);
+      await this.extensions.executeHook('onResponse', {response, data});
+      await this.extensions.executeHook('afterSuccess', {data, response, duration: Date.now() - startedAt});
+      success = true;
+      
+      return {response, data};
     } catch (error) {
-      if (error instanceof WefyTimeoutError || error instanceof WefyParseError) {
-        throw error;
+      const failure = isAbort() || error instanceof WefyError || error instanceof ExtensionError ? toError(error) : new WefyError(`Request failed: ${error instanceof Error ? error.message : 'Unknown error occurred'}`, {cause: error});
+      if (failure instanceof WefyError && attempts > 0) {
+        failure.attempts = attempts;
       }
       
-      const message = error instanceof Error ? error.message : 'Unknown error occurred';
-      throw new Error(`Request failed: ${message}`);
+      await this.extensions.executeErrorHook(failure, {method, endpoint: path, config});
+      throw failure;
     } finally {
-      clearTimeout(timeoutId);
+      userSignal.cleanup();
+      await this.extensions.executeHook('afterRequest', {
+        method, endpoint: path, config, duration: Date.now() - startedAt, success
+      });
     }
   }
   
-  public decorate<Name extends string, Config extends Partial<WefyConfig>>(name: Name, config: Config): this & { [K in Name]: DecoratedWefy } {
-    return produce(this, (draft) => {
-      Object.defineProperty(draft, name, {
-        value: new Wefy({
-          ...this.config, ...config, options: {
-            ...this.config.options, ...config.options, headers: new Headers({
-              ...this.config.options?.headers, ...config.options?.headers,
-            }),
-          },
-        }), writable: false, enumerable: true, configurable: false,
+  /**
+   * Opens a Server-Sent Events stream through this client, reconnecting with `Last-Event-ID`
+   */
+  sse(path: string, config: WefySSEConfig = {}): WefyEventSource {
+    const {reconnect, retryDelay, maxRetries, lastEventId, ...requestConfig} = config;
+    
+    return new WefyEventSource((signal, lastId) => this.request('GET', path, undefined, {
+      ...requestConfig, retry: false, cache: false, dedupe: false, options: {
+        ...requestConfig.options, signal, headers: mergeHeaders({
+          Accept: 'text/event-stream', 'Cache-Control': 'no-cache'
+        }, requestConfig.options?.headers, lastId ? {'Last-Event-ID': lastId} : undefined),
+      },
+    }, true), {
+      reconnect, retryDelay, maxRetries, lastEventId, signals: [requestConfig.options?.signal, this.config.options?.signal]
+    });
+  }
+  
+  /**
+   * Pages through a list with GET requests, following `Link` headers unless another strategy is given.
+   * Iteration stops after `maxPages` pages and rejects once a signal of the request or client aborted.
+   */
+  paginate<Item = unknown, Page = unknown>(path: string, config?: WefyPaginateConfig, strategy?: WefyPaginationStrategy<Item, Page>): WefyPaginator<Item, Page>;
+  
+  /**
+   * With only `Item` given, as in `paginate<User>(path, config, strategy)`, the strategy may read any page type
+   */
+  paginate<Item>(path: string, config: WefyPaginateConfig | undefined, strategy: WefyPaginationStrategy<Item, never>): WefyPaginator<Item>;
+  
+  paginate<Item, Page>(path: string, config: WefyPaginateConfig = {}, strategy: WefyPaginationStrategy<Item, never> = linkPagination()): WefyPaginator<Item, Page> {
+    const {maxPages, ...requestConfig} = config;
+    
+    return new WefyPaginator(async (request) => {
+      const {response, data} = await this.execute<Page, undefined>('GET', request.path, undefined, {
+        // Path parameters only apply to the path they were given for, not to followed links
+        ...requestConfig, params: request.params, pathParams: request.path === path ? requestConfig.pathParams : undefined,
+      });
+      return {response, data: data as Page};
+    }, strategy as WefyPaginationStrategy<Item, Page>, {path, params: requestConfig.params}, {
+      maxPages, signals: [requestConfig.options?.signal, this.config.options?.signal]
+    });
+  }
+  
+  /**
+   * Returns a copy of this client with a client derived with `config` added as `name`. Both inherit the
+   * scopes of this client, rebuilt so that their requests use their configuration, and the copy keeps
+   * the clients decorated before. This client is left unchanged.
+   */
+  public decorate<Name extends string, Config extends Partial<WefyConfig>>(name: Name, config: Config): this & { [K in Name]: DecoratedWefy<this> } {
+    this.assertAvailable(this, name, name);
+    const copy = this.inherit(this.derive({}));
+    const decorations = new Map(this.decorations).set(name, copy.inherit(copy.derive(config)));
+    
+    for (const [key, decorated] of decorations) {
+      copy.decorations.set(key, decorated);
+      Object.defineProperty(copy, key, {
+        value: decorated, writable: false, enumerable: true, configurable: false,
       });
-    }) as this & { [K in Name]: DecoratedWefy };
+    }
+    return copy as unknown as this & { [K in Name]: DecoratedWefy<this> };
   }
   
-  scope<Name extends string, T extends Record<string, ScopeMethod>>(name: Name, methods: T, config?: Partial<WefyConfig>): this & { [K in Name]: T };
+  scope<Name extends string, T extends Record<string, ScopeMethod>>(name: Name, methods: T, config?: Partial<WefyConfig>): this & { [K in Name]: WefyScope<T> };
+  
+  scope<Name extends string, T extends Record<string, ScopeMethod>>(name: Name, fn: (ctx: ScopeFactoryContext) => T, config?: Partial<WefyConfig>): this & { [K in Name]: WefyScope<T> };
   
-  scope<Name extends string, T extends Record<string, ScopeMethod>>(name: Name, fn: (ctx: ScopeFactoryContext) => T, config?: Partial<WefyConfig>): this & { [K in Name]: T };
+  scope<Name extends string, T extends Record<string, ScopeMethod>>(name: Name, objOrFn: ScopeDefinition<T>, config?: Partial<WefyConfig>): this & { [K in Name]: WefyScope<T> } {
+    this.mount(this, name, this, objOrFn, config, new Map());
+    return this as this & { [K in Name]: WefyScope<T> };
+  }
   
-  scope<Name extends string, T extends Record<string, ScopeMethod>>(name: Name, objOrFn: T | ((ctx: ScopeFactoryContext) => T), config?: Partial<WefyConfig>): this & { [K in Name]: T } {
-    if (this.scopes.has(name)) {
-      throw new Error(`Scope "${name}" already exists.`);
+  /**
+   * @param name Scope name, nested scopes are addressed by their dotted path such as `admin.users`
+   */
+  public getScopeInfo<T extends Record<string, ScopeMethod>>(name: string): ScopeInfo<T> | undefined {
+    return this.scopes.get(name)?.info as ScopeInfo<T> | undefined;
+  }
+  
+  public hasScope(name: string): boolean {
+    return this.scopes.has(name);
+  }
+  
+  /**
+   * Paths of every scope, nested scopes included
+   */
+  listScopes(): string[] {
+    return Array.from(this.scopes.keys());
+  }
+  
+  /**
+   * Builds the scope at `path` on `target`, this client or a parent scope, sending its requests with `client`
+   */
+  private mount(target: object, path: string, client: Wefy, definition: ScopeDefinition<Record<string, ScopeMethod>>, config: Partial<WefyConfig> | undefined, state: Map<string, unknown>): void {
+    const name = path.slice(path.lastIndexOf('.') + 1);
+    if (this.scopes.has(path)) {
+      throw new Error(`Scope "${path}" already exists.`);
     }
+    this.assertAvailable(target, name, path);
     
-    const scopedWefy = config ? Wefy.create({
-      ...this.config, ...config, options: {
-        ...this.config.options, ...config.options, headers: new Headers({
-          ...this.config.options?.headers, ...config.options?.headers,
-        }),
-      },
-    }) : this;
-    
-    const state = new Map<string, unknown>();
+    const scopedWefy = client.derive(config ?? {});
+    scopedWefy.scopePath = path;
     
     const createContext = (wefy: Wefy): ScopeFactoryContext => ({
       get: wefy.get.bind(wefy),
@@ -172,50 +446,226 @@ class Wefy extends HttpMethodsBase {
       put: wefy.put.bind(wefy),
       patch: wefy.patch.bind(wefy),
       delete: wefy.delete.bind(wefy),
+      head: wefy.head.bind(wefy),
+      options: wefy.options.bind(wefy),
+      send: wefy.send.bind(wefy),
+      sse: wefy.sse.bind(wefy),
+      paginate: wefy.paginate.bind(wefy),
       decorate: <DecConfig extends Partial<WefyConfig>>(decorateConfig: DecConfig): ScopeFactoryContext => {
-        const newWefy = Wefy.create({
-          ...wefy.config, ...decorateConfig, options: {
-            ...wefy.config.options, ...decorateConfig.options, headers: new Headers({
-              ...wefy.config.options?.headers, ...decorateConfig.options?.headers,
-            }),
-          },
-        });
-        return createContext(newWefy);
+        return createContext(wefy.derive(decorateConfig));
       },
       state,
     });
     
-    const context = createContext(scopedWefy);
-    
-    const methods = typeof objOrFn === 'function' ? objOrFn(context) : objOrFn;
-    
-    const scopeInfo: ScopeInfo<T> = {methods, state, config};
-    this.scopes.set(name, scopeInfo as ScopeInfo<Record<string, ScopeMethod>>);
-    
-    const newThis = produce(this, (draft) => {
-      Object.defineProperty(draft, name, {
-        value: methods, writable: false, enumerable: true, configurable: false,
+    const defined = typeof definition === 'function' ? definition(createContext(scopedWefy)) : definition;
+    // Copied so the same definition can be mounted on decorated clients
+    const methods = Object.defineProperties({}, Object.getOwnPropertyDescriptors(defined)) as Record<string, ScopeMethod>;
+    if (!('scope' in methods)) {
+      Object.defineProperty(methods, 'scope', {
+        value: (nestedName: string, nested: ScopeDefinition<Record<string, ScopeMethod>>, nestedConfig?: Partial<WefyConfig>) => {
+          this.mount(methods, `${path}.${nestedName}`, scopedWefy, nested, nestedConfig, new Map());
+          return methods;
+        }, enumerable: false,
       });
-    });
+    }
     
-    return newThis as this & { [K in Name]: T };
+    this.scopes.set(path, {info: {methods, state, config}, definition, client: scopedWefy});
+    Object.defineProperty(target, name, {
+      value: methods, writable: false, enumerable: true, configurable: false,
+    });
   }
   
-  public getScopeInfo<T extends Record<string, ScopeMethod>>(name: string): ScopeInfo<T> | undefined {
-    return this.scopes.get(name) as ScopeInfo<T> | undefined;
+  /**
+   * Rebuilds the scopes of this client on `client`, which shares their state
+   */
+  private inherit(client: Wefy): Wefy {
+    for (const [path, {info, definition}] of this.scopes) {
+      const parentPath = path.slice(0, Math.max(path.lastIndexOf('.'), 0));
+      const parent = parentPath ? client.scopes.get(parentPath)! : null;
+      client.mount(parent?.info.methods ?? client, path, parent?.client ?? client, definition, info.config, info.state);
+    }
+    return client;
   }
   
-  public hasScope(name: string): boolean {
-    return this.scopes.has(name);
+  private assertAvailable(target: object, name: string, path: string): void {
+    if (name in target) {
+      throw new Error(`"${path}" is already defined.`);
+    }
   }
   
-  listScopes(): string[] {
-    return Array.from(this.scopes.keys());
+  protected makeRequest<ResponseData, RequestData extends WefyRequestBody = undefined>(method: HttpMethod, path: string, body?: RequestData, config?: WefyRequestConfig): Promise<ResponseData> {
+    return this.request<ResponseData, RequestData>(method, path, body, config);
+  }
+  
+  /**
+   * Performs a single attempt of a request: fetches it under the connect timeout, validates the
+   * status and, unless raw, reads the body under the read timeout.
+   */
+  private async exchange<ResponseData>(outgoing: ExtensionOutgoingRequest, config: WefyRequestConfig | undefined, context: {
+    raw?: boolean; userSignals: (AbortSignal | null | undefined)[]; startedAt: number;
+    /**
+     * Cache partition of the request's auth strategy
+     */
+    partition?: string;
+  }): Promise<{ response: Response; data: ResponseData | undefined }> {
+    const controller = new AbortController();
+    const signal = createSignal(controller.signal, ...context.userSignals);
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    let release: (() => void) | undefined;
+    let streaming = false;
+    let dispatched = false;
+    let finished = false;
+    let circuit: WefyCircuitCall | undefined;
+    
+    const baseOptions = {...this.config.options};
+    const requestOptions = {...config?.options};
+    delete baseOptions?.headers;
+    delete requestOptions?.headers;
+    
+    try {
+      const intercepted = await this.interceptors.request.run(Promise.resolve({
+        url: outgoing.url, init: {
+          ...baseOptions, ...requestOptions, method: outgoing.method, headers: new Headers(outgoing.headers), body: outgoing.body as RequestInit['body'],
+        },
+      }));
+      const url = intercepted.url;
+      const method = intercepted.init.method ?? outgoing.method;
+      const headers = new Headers(intercepted.init.headers);
+      const fetchOptions: RequestInit = {...intercepted.init, method, headers, signal: signal.signal};
+      
+      const cache = config?.cache === false ? null : this.cache;
+      // Fresh cached responses never reach the server, so they skip the circuit, the queue and the rate limit
+      const hit = cache ? await cache.match(url, fetchOptions, context.partition) : undefined;
+      
+      const upload = config?.onUploadProgress ? await trackUpload(fetchOptions.body, headers, config.onUploadProgress) : null;
+      if (upload) {
+        Object.assign(fetchOptions, upload.duplex ? {body: upload.body, duplex: upload.duplex} : {body: upload.body});
+      }
+      
+      const timeout = config?.timeout ?? this.config.timeout;
+      const armTimeout = () => {
+        if (timeout && timeout > 0 && !finished) {
+          timeoutId = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout);
+        }
+      };
+      
+      const send = (init: RequestInit) => cache ? cache.fetch(this.fetch, url, init, context.partition) : this.fetch(url, init);
+      // Passes the circuit, the rate limit and the queue before sending, under the signal of the fetch
+      const dispatch = async (init: RequestInit) => {
+        dispatched = true;
+        try {
+          circuit = this.circuitBreaker?.enter(this.circuitBreaker.keyOf(url, this.scopePath), {method, url});
+          // The rate limit token is taken first, so requests waiting for one do not hold a queue slot
+          await this.rateLimiter?.acquire(url, init.signal);
+          // The slot is held until the body was read, or until headers arrived for raw and unparsed requests
+          const slot = await this.queue.acquire(new URL(url).origin, {
+            priority: config?.priority, timeout: config?.queueTimeout ?? this.config.queueTimeout, signal: init.signal ?? undefined,
+          });
+          if (finished) {
+            slot();
+          } else {
+            release = slot;
+          }
+        } catch (error) {
+          circuit?.release();
+          circuit = undefined;
+          throw error;
+        }
+        armTimeout();
+        return send(init);
+      };
+      
+      // Identical concurrent safe requests share one fetch, each caller gets its own response. Callers joining
+      // an in-flight request skip the circuit, the rate limit and the queue, which the sending caller passed.
+      const dedupe = (config?.dedupe ?? this.config.dedupe ?? true) && DEDUPE_METHODS.has(method.toUpperCase()) && fetchOptions.body == null;
+      const pending = hit ? Promise.resolve(hit) : dedupe ? this.inFlight.fetch(WefyDeduplicator.key(method, url, headers), (shared) => dispatch({
+        ...fetchOptions, signal: shared
+      }), signal.signal) : dispatch(fetchOptions);
+      if (!hit && !dispatched) {
+        armTimeout();
+      }
+      
+      const settled = (async () => {
+        const received = await pending.catch(error => {
+          const failure = timedOut ? new WefyTimeoutError(timeout, 'connect') : error;
+          if (context.userSignals.some(userSignal => userSignal?.aborted)) {
+            circuit?.release();
+          } else {
+            circuit?.error(failure);
+          }
+          throw failure;
+        }).finally(() => clearTimeout(timeoutId));
+        circuit?.response(received);
+        upload?.complete();
+        if (dispatched) {
+          this.rateLimiter?.update(url, received);
+        }
+        const response = config?.onDownloadProgress ? trackDownload(received, config.onDownloadProgress) : received;
+        
+        await this.extensions.executeHook('beforeResponse', {response, duration: Date.now() - context.startedAt});
+        
+        const validateStatus = config?.validateStatus ?? this.config.validateStatus ?? isSuccessStatus;
+        if (!context.raw && !validateStatus(response.status)) {
+          const errorResponse = response.clone();
+          throw new WefyHttpError(errorResponse, {
+            method, url: response.url || url, error: await this.parseErrorBody(response, errorResponse, config?.readTimeout ?? this.config.readTimeout),
+          });
+        }
+        return response;
+      })();
+      // Response interceptors see validated responses and every error, and may recover from the latter
+      const response = await this.interceptors.response.run(settled);
+      
+      const responseOptions = {
+        readTimeout: config?.readTimeout ?? this.config.readTimeout, onReadTimeout: () => controller.abort(), signal: signal.signal, schema: config?.schema,
+      };
+      // A streamed body outlives the exchange, its signal is released once the body settles
+      streaming = !context.raw && method.toUpperCase() !== 'HEAD' && config?.parse === false;
+      const data = context.raw ? undefined : method.toUpperCase() === 'HEAD' ? headResponse(response) as ResponseData : streaming ? new WefyStreamResponse(response, {...responseOptions, onSettled: () => signal.cleanup()}) as ResponseData : await new WefyResponse<ResponseData>(response, responseOptions);
+      
+      return {response, data};
+    } finally {
+      finished = true;
+      clearTimeout(timeoutId);
+      circuit?.release();
+      release?.();
+      if (!streaming) {
+        signal.cleanup();
+      }
+    }
   }
   
-  protected async makeRequest<ResponseData, RequestData extends RequestInit['body'] = undefined>(method: HttpMethod, path: string, body?: RequestData, config?: WefyRequestConfig): Promise<ResponseData> {
-    const response = await this.request<ResponseData, RequestData>(method, path, body, config);
-    return (response instanceof WefyResponse ? await response.auto() : response);
+  /**
+   * Parses an error body under the read timeout, a body that cannot be read is left out. When reading
+   * times out, `copy`, the clone kept on the error, is cancelled as well so that the transfer stops.
+   */
+  private async parseErrorBody(response: Response, copy: Response, readTimeout: number | undefined): Promise<unknown> {
+    if (response.body === null) {
+      return undefined;
+    }
+    return new WefyResponse(response, {
+      readTimeout, onReadTimeout: () => copy.body?.cancel().catch(() => undefined),
+    }).catch(() => undefined);
+  }
+  
+  /**
+   * Creates a client from this one's configuration overlaid with `config`.
+   * The child shares this client's extensions and interceptors; extensions listed in `config` are added to them.
+   * It also shares the request queue, unless `config` sets `maxConcurrent`.
+   */
+  private derive(config: Partial<WefyConfig>): Wefy {
+    const {extensions, ...overrides} = config;
+    const derived = new Wefy({
+      ...this.config, ...overrides, options: {
+        ...this.config.options, ...overrides.options, headers: mergeHeaders(this.config.options?.headers, overrides.options?.headers),
+      },
+    }, extensions ? this.extensions.extend(extensions) : this.extensions, this.interceptors, 'maxConcurrent' in overrides ? undefined : this.queue);
+    derived.scopePath = this.scopePath;
+    return derived;
   }
   
   private validateConfig(config: WefyConfig): void {
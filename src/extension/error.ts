@@ -1,6 +1,8 @@
 export class ExtensionError extends Error {
-  constructor(message: string, public readonly extensionName?: string) {
+  constructor(message: string, public readonly extensionName?: string, public readonly code?: string) {
     super(message);
     this.name = "ExtensionError";
+    
+    Object.setPrototypeOf(this, new.target.prototype);
   }
 }
@@ -1 +1,4 @@
-// export { createExtension } from "./utils";
+export * from "./types";
+export {createExtension, mergeExtensions} from "./utils";
+export {WefyExtensionManager} from "./manager";
+export {ExtensionError} from "./error";
@@ -1,114 +1,88 @@
-// import { HttpMethod, WefyRequestConfig } from "@/types";
-// import { Draft, Immutable } from "immer";
-//
-// export type SharedStateValue = string | number | boolean | object | null;
-// export type StateModifier<ExtensionState> = (
-//   state: Draft<ExtensionState>
-// ) => void;
-//
-// export interface ExtensionError extends Error {
-//   extensionName?: string;
-//   code?: string;
-// }
-//
-// export interface WefyExtensionHooks<
-//   ExtensionState extends Record<string, unknown> = Record<string, unknown>
-// > {
-//   init?: (
-//     config: Draft<Record<string, unknown>>,
-//     context: WefyExtensionContext<ExtensionState>
-//   ) => Promise<void> | void;
-//
-//   beforeRequest?: (
-//     request: {
-//       method: HttpMethod;
-//       endpoint: string;
-//       config: WefyRequestConfig<undefined>;
-//     },
-//     context: WefyExtensionContext<ExtensionState>
-//   ) => Promise<void> | void;
-//
-//   onRequest?: (
-//     request: {
-//       url: string;
-//       method: HttpMethod;
-//       headers: Record<string, string>;
-//       body: unknown;
-//     },
-//     context: WefyExtensionContext<ExtensionState>
-//   ) => Promise<void> | void;
-//
-//   beforeResponse?: (
-//     response: {
-//       response: Response;
-//       duration: number;
-//     },
-//     context: WefyExtensionContext<ExtensionState>
-//   ) => Promise<void> | void;
-//
-//   onResponse?: (
-//     response: {
-//       response: Response;
-//       data: unknown;
-//     },
-//     context: WefyExtensionContext<ExtensionState>
-//   ) => Promise<void> | void;
-//
-//   afterSuccess?: (
-//     response: {
-//       data: unknown;
-//       response: Response;
-//       duration: number;
-//     },
-//     context: WefyExtensionContext<ExtensionState>
-//   ) => Promise<void> | void;
-//
-//   onError?: (
-//     error: Error,
-//     context: WefyExtensionContext<ExtensionState>,
-//     meta?: {
-//       method?: HttpMethod;
-//       endpoint?: string;
-//       config?: WefyRequestConfig<undefined>;
-//     }
-//   ) => Promise<void> | void;
-//
-//   afterRequest?: (
-//     meta: {
-//       method: HttpMethod;
-//       endpoint: string;
-//       config?: WefyRequestConfig<undefined>;
-//       duration: number;
-//       success: boolean;
-//     },
-//     context: WefyExtensionContext<ExtensionState>
-//   ) => Promise<void> | void;
-//
-//   onStateChange?: (
-//     mutation: {
-//       previousState: Immutable<ExtensionState>;
-//       newState: Immutable<ExtensionState>;
-//     },
-//     context: WefyExtensionContext<ExtensionState>
-//   ) => Promise<void> | void;
-// }
-//
-// export interface WefyExtension<
-//   ExtensionState extends Record<string, unknown> = Record<string, unknown>
-// > {
-//   name: string;
-//   critical?: boolean;
-//   priority?: number;
-//   initialState?: ExtensionState;
-//   hooks: Partial<WefyExtensionHooks<ExtensionState>>;
-// }
-//
-// export interface WefyExtensionContext<
-//   ExtensionState extends Record<string, unknown> = Record<string, unknown>
-// > {
-//   readonly extensionState: Immutable<ExtensionState>;
-//   readonly sharedState: ReadonlyMap<string, SharedStateValue>;
-//   setState: (modifier: StateModifier<ExtensionState>) => void;
-//   getSharedState: (key: string) => SharedStateValue | undefined;
-//   setSharedState: (key: string, value: SharedStateValue) => void;
-// }
+import {HttpMethod, WefyConfig, WefyRequestConfig} from "@/core/types.ts";
+import {Draft, Immutable} from "immer";
+
+export type SharedStateValue = string | number | boolean | object | null;
+export type StateModifier<ExtensionState> = (state: Draft<ExtensionState>) => void;
+
+/**
+ * Request descriptor handed to `beforeRequest`. Hooks may reassign `config`
+ * (or mutate it) to change how the request is built.
+ */
+export interface ExtensionRequest {
+  method: HttpMethod;
+  endpoint: string;
+  config?: WefyRequestConfig;
+}
+
+/**
+ * Outgoing request handed to `onRequest`. Changes to `headers` are sent.
+ */
+export interface ExtensionOutgoingRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface ExtensionRequestMeta {
+  method?: HttpMethod;
+  endpoint?: string;
+  config?: WefyRequestConfig;
+}
+
+/**
+ * Lifecycle hooks, executed in priority order around every `Wefy.request`.
+ * Every hook receives the extension context as its last argument.
+ */
+export interface WefyExtensionHooks<ExtensionState extends Record<string, unknown> = Record<string, unknown>> {
+  init?(config: Readonly<WefyConfig>, context: WefyExtensionContext<ExtensionState>): Promise<void> | void;
+
+  beforeRequest?(request: ExtensionRequest, context: WefyExtensionContext<ExtensionState>): Promise<void> | void;
+
+  onRequest?(request: ExtensionOutgoingRequest, context: WefyExtensionContext<ExtensionState>): Promise<void> | void;
+
+  beforeResponse?(response: {
+    response: Response; duration: number;
+  }, context: WefyExtensionContext<ExtensionState>): Promise<void> | void;
+
+  /**
+   * `data` is undefined for raw requests, whose body is never read.
+   */
+  onResponse?(response: {
+    response: Response; data: unknown;
+  }, context: WefyExtensionContext<ExtensionState>): Promise<void> | void;
+
+  afterSuccess?(response: {
+    data: unknown; response: Response; duration: number;
+  }, context: WefyExtensionContext<ExtensionState>): Promise<void> | void;
+
+  onError?(error: Error, context: WefyExtensionContext<ExtensionState>, meta?: ExtensionRequestMeta): Promise<void> | void;
+
+  afterRequest?(meta: {
+    method: HttpMethod; endpoint: string; config?: WefyRequestConfig; duration: number; success: boolean;
+  }, context: WefyExtensionContext<ExtensionState>): Promise<void> | void;
+
+  onStateChange?(mutation: {
+    previousState: Immutable<ExtensionState>; newState: Immutable<ExtensionState>;
+  }, context: WefyExtensionContext<ExtensionState>): Promise<void> | void;
+}
+
+export interface WefyExtension<ExtensionState extends Record<string, unknown> = Record<string, unknown>> {
+  name: string;
+  /**
+   * A failing hook of a critical extension stops the remaining hooks and rejects the request.
+   * Failures of other extensions are reported to their own `onError` hook only.
+   */
+  critical?: boolean;
+  priority?: number;
+  initialState?: ExtensionState;
+  hooks: Partial<WefyExtensionHooks<ExtensionState>>;
+}
+
+export interface WefyExtensionContext<ExtensionState extends Record<string, unknown> = Record<string, unknown>> {
+  readonly extensionState: Immutable<ExtensionState>;
+  readonly sharedState: ReadonlyMap<string, SharedStateValue>;
+  setState: (modifier: StateModifier<ExtensionState>) => void;
+  getSharedState: (key: string) => SharedStateValue | undefined;
+  setSharedState: (key: string, value: SharedStateValue) => void;
+}
@@ -0,0 +1,11 @@
+import {WefyError} from "@/core/error.ts";
+
+/**
+ * Raised in replay mode when no recorded fixture matches a request
+ */
+export class WefyFixtureMissingError extends WefyError {
+  constructor(method: string, url: string) {
+    super(`No recorded fixture for ${method} ${url}`, {method, url});
+    this.name = "WefyFixtureMissingError";
+  }
+}
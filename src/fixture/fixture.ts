@@ -0,0 +1,198 @@
+import {resolveFetch} from "@/core/utils.ts";
+import {WefyFetch, WefyTransport} from "@/transport/types.ts";
+import {WefyFixtureMissingError} from "./error";
+import {WefyFixtureMatchOptions, WefyFixtureOptions, WefyHar, WefyHarEntry, WefyHarHeader} from "./types";
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+const TEXT_CONTENT = /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)\b/i;
+const DEFAULT_REDACT = ["authorization", "proxy-authorization", "cookie", "set-cookie"];
+const REDACTED = "[REDACTED]";
+
+interface FixtureRequest {
+  method: string;
+  url: string;
+  headers: Headers;
+  body?: string;
+}
+
+/**
+ * @param redact Lower-cased names of the headers whose values are replaced
+ */
+function toHarHeaders(headers: Headers, redact: Set<string>): WefyHarHeader[] {
+  return Array.from(headers.entries(), ([name, value]) => ({name, value: redact.has(name.toLowerCase()) ? REDACTED : value}));
+}
+
+function requestBodyText(body: RequestInit["body"]): string | undefined {
+  if (typeof body === "string") return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  return undefined;
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+function pickBody(body: string | undefined, keys: string[]): string | undefined {
+  if (body === undefined) return undefined;
+  try {
+    const parsed = JSON.parse(body) as Record<string, unknown>;
+    return JSON.stringify(keys.map((key) => parsed?.[key]));
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Identity of a request under the configured match options
+ */
+function fixtureKey(request: FixtureRequest, match: WefyFixtureMatchOptions): string {
+  const headers = (match.headers ?? []).map((name) => [name.toLowerCase(), request.headers.get(name)]);
+  const body = match.body === true ? request.body : Array.isArray(match.body) ? pickBody(request.body, match.body) : undefined;
+  return JSON.stringify([request.method.toUpperCase(), request.url, headers, body ?? null]);
+}
+
+function entryRequest(entry: WefyHarEntry): FixtureRequest {
+  const headers = new Headers();
+  entry.request.headers.forEach(({name, value}) => headers.append(name, value));
+  return {method: entry.request.method, url: entry.request.url, headers, body: entry.request.postData?.text};
+}
+
+function toResponse(entry: WefyHarEntry): Response {
+  const {status, statusText, headers, content} = entry.response;
+  const body = NULL_BODY_STATUSES.has(status) || content.text === undefined ? null : content.encoding === "base64" ? decodeBase64(content.text) : content.text;
+  return new Response(body, {status, statusText, headers: headers.map(({name, value}): [string, string] => [name, value])});
+}
+
+/**
+ * Transport recording request/response pairs as a HAR log and replaying them later.
+ * Requests match fixtures on method, full URL and the headers and body keys listed in `match`;
+ * identical requests replay their recordings in order, repeating the last one.
+ */
+export class WefyFixtureTransport implements WefyTransport {
+  readonly name = "fixture";
+  /**
+   * Requests that had no fixture while replaying, as `METHOD url`
+   */
+  readonly missing: string[] = [];
+  private readonly entries: WefyHarEntry[] = [];
+  private readonly replayed = new Map<string, number>();
+  private readonly forward: WefyFetch;
+  private readonly redact: Set<string>;
+  private loaded: Promise<void> | null = null;
+  
+  constructor(private readonly options: WefyFixtureOptions) {
+    const {transport, fetch} = options;
+    this.forward = transport ? (url, init) => transport.send(url, init) : fetch ?? ((url, init) => resolveFetch()(url, init));
+    this.redact = new Set((options.redact ?? DEFAULT_REDACT).map((name) => name.toLowerCase()));
+    // Recording starts from an empty log so that stale fixtures are replaced rather than shadowing new ones
+    if (options.mode === "record") {
+      this.loaded = Promise.resolve();
+    } else if (options.har) {
+      this.entries.push(...options.har.log.entries);
+      this.loaded = Promise.resolve();
+    }
+  }
+  
+  async send(url: string, init: RequestInit): Promise<Response> {
+    await this.load();
+    const request: FixtureRequest = {
+      method: (init.method ?? "GET").toUpperCase(), url, headers: new Headers(init.headers), body: requestBodyText(init.body),
+    };
+    
+    if (this.options.mode !== "record") {
+      const entry = this.find(request);
+      if (entry) {
+        init.signal?.throwIfAborted();
+        return toResponse(entry);
+      }
+      if (this.options.mode === "replay") {
+        this.missing.push(`${request.method} ${url}`);
+        throw new WefyFixtureMissingError(request.method, url);
+      }
+    }
+    
+    return this.record(request, init);
+  }
+  
+  /**
+   * Recorded fixtures as a HAR log
+   */
+  toHar(): WefyHar {
+    return {log: {version: "1.2", creator: {name: "wefy", version: "1"}, entries: [...this.entries]}};
+  }
+  
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      const har = await this.options.store?.read();
+      this.entries.push(...har?.log.entries ?? []);
+    })();
+    return this.loaded;
+  }
+  
+  private find(request: FixtureRequest): WefyHarEntry | undefined {
+    const match = this.options.match ?? {};
+    const key = fixtureKey(request, match);
+    const candidates = this.entries.filter((entry) => fixtureKey(entryRequest(entry), match) === key);
+    if (candidates.length === 0) {
+      return undefined;
+    }
+    
+    const index = this.replayed.get(key) ?? 0;
+    this.replayed.set(key, index + 1);
+    return candidates[Math.min(index, candidates.length - 1)];
+  }
+  
+  private async record(request: FixtureRequest, init: RequestInit): Promise<Response> {
+    const startedAt = Date.now();
+    const response = await this.forward(request.url, init);
+    
+    const mimeType = response.headers.get("content-type") ?? "";
+    const bytes = new Uint8Array(await response.clone().arrayBuffer());
+    const textual = TEXT_CONTENT.test(mimeType) || (!mimeType && bytes.length === 0);
+    const url = new URL(request.url);
+    
+    this.entries.push({
+      startedDateTime: new Date(startedAt).toISOString(),
+      time: Date.now() - startedAt,
+      request: {
+        method: request.method,
+        url: request.url,
+        httpVersion: "HTTP/1.1",
+        headers: toHarHeaders(request.headers, this.redact),
+        queryString: Array.from(url.searchParams.entries(), ([name, value]) => ({name, value})),
+        ...(request.body === undefined ? {} : {
+          postData: {mimeType: request.headers.get("content-type") ?? "", text: request.body},
+        }),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: "HTTP/1.1",
+        headers: toHarHeaders(response.headers, this.redact),
+        content: {
+          size: bytes.length,
+          mimeType,
+          ...(textual ? {text: new TextDecoder().decode(bytes)} : {text: encodeBase64(bytes), encoding: "base64" as const}),
+        },
+      },
+    });
+    await this.options.store?.write(this.toHar());
+    
+    return response;
+  }
+}
+
+/**
+ * Creates a transport recording or replaying fixtures, see {@link WefyFixtureTransport}
+ */
+export function createFixtureTransport(options: WefyFixtureOptions): WefyFixtureTransport {
+  return new WefyFixtureTransport(options);
+}
@@ -0,0 +1,3 @@
+export * from "./types";
+export {WefyFixtureTransport, createFixtureTransport} from "./fixture";
+export {WefyFixtureMissingError} from "./error";
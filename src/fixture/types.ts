@@ -0,0 +1,90 @@
+import type {WefyFetch, WefyTransport} from "@/transport/types.ts";
+
+export interface WefyHarHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * Recorded request/response pair, a subset of a HAR 1.2 entry
+ */
+export interface WefyHarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: WefyHarHeader[];
+    queryString: WefyHarHeader[];
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: WefyHarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: "base64" };
+  };
+}
+
+/**
+ * HAR 1.2 log holding recorded fixtures, readable by browser dev tools and HAR viewers
+ */
+export interface WefyHar {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: WefyHarEntry[];
+  };
+}
+
+/**
+ * - `record` sends every request and records it
+ * - `replay` answers from recorded fixtures only, missing fixtures reject
+ * - `auto` replays recorded fixtures and records the missing ones
+ */
+export type WefyFixtureMode = "record" | "replay" | "auto";
+
+/**
+ * Persists recorded fixtures, e.g. to a HAR file
+ */
+export interface WefyFixtureStore {
+  read(): WefyHar | undefined | Promise<WefyHar | undefined>;
+  write(har: WefyHar): void | Promise<void>;
+}
+
+export interface WefyFixtureMatchOptions {
+  /**
+   * Request headers that must match, by name
+   */
+  headers?: string[];
+  /**
+   * `true` matches the whole body, a list of keys matches only those keys of a JSON body
+   */
+  body?: boolean | string[];
+}
+
+export interface WefyFixtureOptions {
+  mode: WefyFixtureMode;
+  store?: WefyFixtureStore;
+  /**
+   * Fixtures to start from in `replay` and `auto` modes, used instead of reading the store.
+   * `record` mode always starts from an empty log and overwrites the store.
+   */
+  har?: WefyHar;
+  /**
+   * What a request must share with a fixture besides method and URL
+   */
+  match?: WefyFixtureMatchOptions;
+  /**
+   * Headers whose recorded values are replaced by `[REDACTED]`, in requests and responses
+   * (default: authorization, proxy-authorization, cookie and set-cookie). Redacted headers cannot be matched on.
+   */
+  redact?: string[];
+  /**
+   * Sends the requests being recorded, defaults to `fetch`
+   */
+  transport?: WefyTransport;
+  fetch?: WefyFetch;
+}
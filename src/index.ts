@@ -1,5 +1,17 @@
 export * from "./core";
 export * from "./extension";
+export * from "./cache";
+export * from "./transport";
+export * from "./mock";
+export * from "./fixture";
+export * from "./sse";
+export * from "./auth";
+export * from "./interceptor";
+export * from "./contract";
+export * from "./queue";
+export * from "./ratelimit";
+export * from "./circuit";
+export * from "./paginate";
 
 // import {WefyError} from "./error";
 // import {HttpMethod, Params, SanitizeUrlOptions,} from "./types";
@@ -0,0 +1,54 @@
+import {WefyFulfilledInterceptor, WefyRejectedInterceptor} from "./types";
+
+interface Interceptor<Value> {
+  fulfilled?: WefyFulfilledInterceptor<Value>;
+  rejected?: WefyRejectedInterceptor<Value>;
+}
+
+// Ids are unique across managers so a child can never eject a parent's interceptor by accident
+let nextId = 0;
+
+/**
+ * Ordered chain of interceptors. A manager created with a parent runs the parent's interceptors,
+ * including ones added later, before its own; ejecting only affects its own interceptors.
+ */
+export class WefyInterceptorManager<Value> {
+  private readonly interceptors = new Map<number, Interceptor<Value>>();
+  
+  constructor(private readonly parent?: WefyInterceptorManager<Value>) {
+  }
+  
+  /**
+   * Adds an interceptor to the end of the chain
+   * @returns Id to pass to `eject`
+   */
+  use(onFulfilled?: WefyFulfilledInterceptor<Value> | null, onRejected?: WefyRejectedInterceptor<Value> | null): number {
+    const id = nextId++;
+    this.interceptors.set(id, {fulfilled: onFulfilled ?? undefined, rejected: onRejected ?? undefined});
+    return id;
+  }
+  
+  eject(id: number): boolean {
+    return this.interceptors.delete(id);
+  }
+  
+  clear(): void {
+    this.interceptors.clear();
+  }
+  
+  get size(): number {
+    return this.interceptors.size + (this.parent?.size ?? 0);
+  }
+  
+  /**
+   * Passes `value` through the chain: each interceptor sees the result of the previous one,
+   * or its error when it threw
+   */
+  run(value: Promise<Value>): Promise<Value> {
+    let result = this.parent ? this.parent.run(value) : value;
+    for (const {fulfilled, rejected} of Array.from(this.interceptors.values())) {
+      result = result.then(fulfilled, rejected);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,29 @@
+import type {WefyInterceptorManager} from "./manager";
+
+/**
+ * Request about to be sent. Interceptors may change the URL and any `RequestInit` field;
+ * the signal is always replaced by the client's, abort through `options.signal` instead.
+ */
+export interface WefyInterceptedRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export type WefyFulfilledInterceptor<Value> = (value: Value) => Value | Promise<Value>;
+
+/**
+ * Receives the error of the previous step. Returning a value recovers from it, throwing passes it on.
+ */
+export type WefyRejectedInterceptor<Value> = (error: unknown) => Value | Promise<Value>;
+
+export type WefyRequestInterceptor = WefyFulfilledInterceptor<WefyInterceptedRequest>;
+
+export type WefyResponseInterceptor = WefyFulfilledInterceptor<Response>;
+
+/**
+ * Interceptor chains of a client, inherited by the clients derived from it
+ */
+export interface WefyInterceptors {
+  request: WefyInterceptorManager<WefyInterceptedRequest>;
+  response: WefyInterceptorManager<Response>;
+}
@@ -0,0 +1,144 @@
+import {Wefy} from "@/core/wefy.ts";
+import {WefyTransport} from "@/transport/types.ts";
+import {WefyMockError} from "./error";
+import {WefyMockRoute} from "./route";
+import {CreateMockWefyConfig, WefyMockMatcher, WefyMockOptions, WefyMockRequest} from "./types";
+
+type RouteOptions = Omit<WefyMockMatcher, "method" | "path">;
+
+function parseBody(body: RequestInit["body"]): unknown {
+  if (typeof body !== "string") {
+    return body ?? undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function toMockRequest(url: string, init: RequestInit): WefyMockRequest {
+  const parsed = new URL(url);
+  const query: WefyMockRequest["query"] = {};
+  for (const key of new Set(parsed.searchParams.keys())) {
+    const values = parsed.searchParams.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  }
+  
+  const headers: Record<string, string> = {};
+  new Headers(init.headers).forEach((value, name) => {
+    headers[name] = value;
+  });
+  
+  return {
+    method: (init.method ?? "GET").toUpperCase(),
+    url,
+    path: parsed.pathname,
+    query,
+    headers,
+    body: parseBody(init.body),
+    params: {},
+  };
+}
+
+/**
+ * Transport answering requests from registered routes instead of the network. Routes are
+ * tried in registration order; every request is recorded in `history`.
+ */
+export class WefyMockAdapter implements WefyTransport {
+  readonly name = "mock";
+  readonly history: WefyMockRequest[] = [];
+  private readonly routes: WefyMockRoute[] = [];
+  
+  constructor(private readonly options: WefyMockOptions = {}) {
+  }
+  
+  on(matcher: WefyMockMatcher): WefyMockRoute {
+    const route = new WefyMockRoute(matcher);
+    this.routes.push(route);
+    return route;
+  }
+  
+  onGet(path: string | RegExp, options?: RouteOptions): WefyMockRoute {
+    return this.on({...options, method: "GET", path});
+  }
+  
+  onPost(path: string | RegExp, options?: RouteOptions): WefyMockRoute {
+    return this.on({...options, method: "POST", path});
+  }
+  
+  onPut(path: string | RegExp, options?: RouteOptions): WefyMockRoute {
+    return this.on({...options, method: "PUT", path});
+  }
+  
+  onPatch(path: string | RegExp, options?: RouteOptions): WefyMockRoute {
+    return this.on({...options, method: "PATCH", path});
+  }
+  
+  onDelete(path: string | RegExp, options?: RouteOptions): WefyMockRoute {
+    return this.on({...options, method: "DELETE", path});
+  }
+  
+  onAny(path: string | RegExp, options?: RouteOptions): WefyMockRoute {
+    return this.on({...options, path});
+  }
+  
+  /**
+   * Recorded requests matching the given method and path pattern
+   */
+  calls(method?: string, path?: string | RegExp): WefyMockRequest[] {
+    if (!method && !path) {
+      return [...this.history];
+    }
+    const route = new WefyMockRoute({method, path: path ?? "*"});
+    return this.history.filter((request) => route.match(request) !== null);
+  }
+  
+  /**
+   * Routes limited with `times()` that have not been used up
+   */
+  pending(): WefyMockRoute[] {
+    return this.routes.filter((route) => Number.isFinite(route.remaining) && route.remaining > 0);
+  }
+  
+  resetHistory(): void {
+    this.history.length = 0;
+  }
+  
+  /**
+   * Removes all routes and recorded requests
+   */
+  reset(): void {
+    this.routes.length = 0;
+    this.resetHistory();
+  }
+  
+  async send(url: string, init: RequestInit): Promise<Response> {
+    init.signal?.throwIfAborted();
+    const request = toMockRequest(url, init);
+    this.history.push(request);
+    
+    for (const route of this.routes) {
+      const params = route.match(request);
+      if (params) {
+        request.params = params;
+        return route.handle(request, init.signal);
+      }
+    }
+    
+    if (this.options.strict) {
+      throw new WefyMockError(`No mock route matches ${request.method} ${url}`, request.method, url);
+    }
+    return new Response(null, {status: 404, statusText: "Not Found"});
+  }
+}
+
+/**
+ * Creates a client whose requests are answered by a mock adapter
+ */
+export function createMockWefy(config: CreateMockWefyConfig = {}): { api: Wefy; mock: WefyMockAdapter } {
+  const {strict, ...wefyConfig} = config;
+  const mock = new WefyMockAdapter({strict});
+  const api = Wefy.create({baseUrl: "http://localhost", ...wefyConfig, transport: mock});
+  return {api, mock};
+}
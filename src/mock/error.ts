@@ -0,0 +1,11 @@
+import {WefyError} from "@/core/error.ts";
+
+/**
+ * Raised by the mock adapter for unmatched requests in strict mode
+ */
+export class WefyMockError extends WefyError {
+  constructor(message: string, method?: string, url?: string) {
+    super(message, {method, url});
+    this.name = "WefyMockError";
+  }
+}
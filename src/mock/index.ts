@@ -0,0 +1,4 @@
+export * from "./types";
+export {WefyMockAdapter, createMockWefy} from "./adapter";
+export {WefyMockRoute} from "./route";
+export {WefyMockError} from "./error";
@@ -0,0 +1,186 @@
+import {sleep} from "@/core/retry.ts";
+import {WefyMockMatcher, WefyMockReply, WefyMockRequest, WefyMockResponder} from "./types";
+
+/**
+ * Compiles a path pattern, `:name` captures a segment and `*` matches anything
+ */
+function compilePath(path: string | RegExp): RegExp {
+  if (path instanceof RegExp) {
+    return path;
+  }
+  
+  const source = path.replace(/(.)\/+$/, "$1").split(/(:[A-Za-z_$][\w$]*|\*)/).map((part) => {
+    if (part === "*") return ".*";
+    if (part.startsWith(":")) return `(?<${part.slice(1)}>[^/]+)`;
+    return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }).join("");
+  return new RegExp(`^${source}/?$`);
+}
+
+function matchesQuery(matcher: WefyMockMatcher["query"], query: WefyMockRequest["query"]): boolean {
+  if (!matcher) return true;
+  if (typeof matcher === "function") return matcher(query);
+  
+  return Object.entries(matcher).every(([key, expected]) => {
+    const actual = query[key];
+    if (Array.isArray(expected)) {
+      const values = Array.isArray(actual) ? actual : actual === undefined ? [] : [actual];
+      return values.length === expected.length && expected.every((value, index) => String(value) === values[index]);
+    }
+    return actual === String(expected);
+  });
+}
+
+function toResponse(reply: WefyMockReply): Response {
+  const {status = 200, statusText, body} = reply;
+  const headers = new Headers(reply.headers);
+  let payload: BodyInit | null = null;
+  
+  if (typeof body === "string") {
+    payload = body;
+    if (!headers.has("Content-Type")) headers.set("Content-Type", "text/plain");
+  } else if (body instanceof Blob || body instanceof ArrayBuffer || ArrayBuffer.isView(body) || body instanceof FormData || body instanceof URLSearchParams || body instanceof ReadableStream) {
+    payload = body as BodyInit;
+  } else if (body !== undefined && body !== null) {
+    payload = JSON.stringify(body);
+    if (!headers.has("Content-Type")) headers.set("Content-Type", "application/json");
+  }
+  
+  return new Response(payload, {status, statusText, headers});
+}
+
+/**
+ * Waits until `signal` aborts, simulating a server that never answers
+ */
+function hang(signal?: AbortSignal | null): Promise<never> {
+  return new Promise((_, reject) => signal?.addEventListener("abort", () => reject(signal.reason), {once: true}));
+}
+
+/**
+ * A route registered on a `WefyMockAdapter`. Configure its answer with the chainable methods.
+ */
+export class WefyMockRoute {
+  private readonly pattern: RegExp;
+  private responder: WefyMockResponder = () => ({status: 200});
+  private failure?: () => unknown;
+  private hangs = false;
+  private delayMs = 0;
+  private remainingCalls = Infinity;
+  private callCount = 0;
+  
+  constructor(readonly matcher: WefyMockMatcher) {
+    this.pattern = compilePath(matcher.path);
+  }
+  
+  /**
+   * Number of requests this route answered
+   */
+  get calls(): number {
+    return this.callCount;
+  }
+  
+  /**
+   * Number of requests the route still answers, Infinity unless limited with {@link WefyMockRoute.times}
+   */
+  get remaining(): number {
+    return this.remainingCalls;
+  }
+  
+  /**
+   * Answers with a canned response, or with the result of `responder` for every request
+   */
+  reply(status: number, body?: unknown, headers?: HeadersInit): this;
+  
+  reply(responder: WefyMockResponder): this;
+  
+  reply(statusOrResponder: number | WefyMockResponder, body?: unknown, headers?: HeadersInit): this {
+    this.responder = typeof statusOrResponder === "function" ? statusOrResponder : () => ({
+      status: statusOrResponder, body, headers,
+    });
+    this.failure = undefined;
+    this.hangs = false;
+    return this;
+  }
+  
+  /**
+   * Rejects like fetch does when the network is unreachable
+   */
+  networkError(message = "Failed to fetch"): this {
+    return this.fail(() => new TypeError(message));
+  }
+  
+  /**
+   * Rejects with `error`, or with the result of calling it
+   */
+  fail(error: unknown): this {
+    this.failure = typeof error === "function" ? error as () => unknown : () => error;
+    return this;
+  }
+  
+  /**
+   * Never answers, leaving the request to be ended by its timeout or signal
+   */
+  timeout(): this {
+    this.hangs = true;
+    return this;
+  }
+  
+  /**
+   * Waits `ms` before answering
+   */
+  delay(ms: number): this {
+    this.delayMs = ms;
+    return this;
+  }
+  
+  /**
+   * Answers only the next `count` matching requests
+   */
+  times(count: number): this {
+    this.remainingCalls = count;
+    return this;
+  }
+  
+  once(): this {
+    return this.times(1);
+  }
+  
+  /**
+   * Returns the path parameters when the route matches `request`, null otherwise
+   */
+  match(request: WefyMockRequest): Record<string, string> | null {
+    const {method, path, query, headers, body} = this.matcher;
+    if (this.remainingCalls <= 0) return null;
+    if (method && method !== "*" && method.toUpperCase() !== request.method.toUpperCase()) return null;
+    
+    const url = new URL(request.url);
+    const target = typeof path === "string" && /^https?:\/\//.test(path) ? url.origin + url.pathname : url.pathname;
+    const found = this.pattern.exec(target) ?? (path instanceof RegExp ? this.pattern.exec(request.url) : null);
+    if (!found) return null;
+    
+    const params = Object.fromEntries(Object.entries(found.groups ?? {}).map(([name, value]) => [name, decodeURIComponent(value)]));
+    if (!matchesQuery(query, request.query)) return null;
+    if (headers && !Object.entries(headers).every(([name, value]) => request.headers[name.toLowerCase()] === value)) return null;
+    if (body && !body(request.body, {...request, params})) return null;
+    
+    return params;
+  }
+  
+  async handle(request: WefyMockRequest, signal?: AbortSignal | null): Promise<Response> {
+    this.remainingCalls--;
+    this.callCount++;
+    
+    if (this.delayMs > 0) {
+      await sleep(this.delayMs, signal);
+    }
+    if (this.hangs) {
+      return hang(signal);
+    }
+    if (this.failure) {
+      throw this.failure();
+    }
+    
+    const reply = await this.responder(request);
+    return reply instanceof Response ? reply : toResponse(reply);
+  }
+}
@@ -0,0 +1,64 @@
+import type {WefyConfig} from "@/core/types.ts";
+
+/**
+ * Request received by the mock adapter, as recorded in its history
+ */
+export interface WefyMockRequest {
+  method: string;
+  url: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string>;
+  /**
+   * Sent body, JSON bodies are parsed
+   */
+  body: unknown;
+  /**
+   * Values of the `:name` segments of the matched route
+   */
+  params: Record<string, string>;
+}
+
+export type WefyMockQueryMatcher = Record<string, string | number | boolean | (string | number | boolean)[]> | ((query: WefyMockRequest["query"]) => boolean);
+
+export interface WefyMockMatcher {
+  /**
+   * Method to match, `*` or omitted matches any method
+   */
+  method?: string;
+  /**
+   * Path pattern with `:name` parameters and `*` wildcards, a full URL pattern, or a regular expression
+   */
+  path: string | RegExp;
+  /**
+   * Query parameters the request must contain, or a predicate on all of them
+   */
+  query?: WefyMockQueryMatcher;
+  /**
+   * Headers the request must carry, compared case-insensitively by name
+   */
+  headers?: Record<string, string>;
+  body?: (body: unknown, request: WefyMockRequest) => boolean;
+}
+
+export interface WefyMockReply {
+  status?: number;
+  statusText?: string;
+  /**
+   * Plain objects and arrays are sent as JSON, strings as text, `BodyInit` values as they are
+   */
+  body?: unknown;
+  headers?: HeadersInit;
+}
+
+export type WefyMockResponder = (request: WefyMockRequest) => WefyMockReply | Response | Promise<WefyMockReply | Response>;
+
+export interface WefyMockOptions {
+  /**
+   * Reject unmatched requests with a `WefyMockError` instead of answering 404
+   */
+  strict?: boolean;
+}
+
+export interface CreateMockWefyConfig extends Partial<WefyConfig>, WefyMockOptions {
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export {WefyPaginator} from "./paginator";
+export {linkPagination, cursorPagination, offsetPagination, pagePagination} from "./strategies";
+export {parseLinkHeader} from "./link";
@@ -0,0 +1,38 @@
+import {WefyLink} from "./types";
+
+const LINK = /<([^>]*)>((?:\s*;\s*[^;,=\s]+(?:\s*=\s*(?:"(?:[^"\\]|\\.)*"|[^;,]*))?)*)/g;
+const LINK_PARAM = /;\s*([^;,=\s]+)(?:\s*=\s*("(?:[^"\\]|\\.)*"|[^;,]*))?/g;
+
+/**
+ * Parses a `Link` header (RFC 8288). Parameter names are lower-cased and quoted values unescaped.
+ */
+export function parseLinkHeader(header: string | null | undefined): WefyLink[] {
+  if (!header) {
+    return [];
+  }
+  
+  return Array.from(header.matchAll(LINK), ([, url, rawParams]) => {
+    const params: Record<string, string> = {};
+    for (const [, name, value = ""] of rawParams.matchAll(LINK_PARAM)) {
+      const key = name.toLowerCase();
+      // The first occurrence of a parameter wins
+      params[key] ??= value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, "$1") : value.trim();
+    }
+    return {url: url.trim(), params};
+  });
+}
+
+/**
+ * Target of the first link whose `rel` includes `rel`, resolved against `base`
+ */
+export function findLink(header: string | null | undefined, rel: string, base?: string): string | undefined {
+  const link = parseLinkHeader(header).find(({params}) => params.rel?.toLowerCase().split(/\s+/).includes(rel.toLowerCase()));
+  if (!link) {
+    return undefined;
+  }
+  try {
+    return new URL(link.url, base || undefined).toString();
+  } catch {
+    return link.url;
+  }
+}
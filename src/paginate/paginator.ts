@@ -0,0 +1,66 @@
+import {WefyPage, WefyPageFetcher, WefyPageRequest, WefyPaginationStrategy, WefyPaginatorOptions} from "./types";
+
+/**
+ * Pages through a list, fetching each page once the previous one was consumed. Iterate it with
+ * `for await` for items, or through `pages()` for whole pages.
+ */
+export class WefyPaginator<Item, Page = unknown> implements AsyncIterable<Item> {
+  /**
+   * @param first Request of the first page, before the strategy adjusts it
+   */
+  constructor(
+    private readonly fetchPage: WefyPageFetcher<Page>,
+    private readonly strategy: WefyPaginationStrategy<Item, Page>,
+    private readonly first: WefyPageRequest,
+    private readonly options: WefyPaginatorOptions = {}
+  ) {
+  }
+  
+  /**
+   * Iterates the pages, stopping after the last page, after `maxPages` pages or when the strategy
+   * asks for a page it already requested
+   */
+  async* pages(): AsyncGenerator<WefyPage<Item, Page>, void, undefined> {
+    const maxPages = this.options.maxPages ?? 100;
+    const requested = new Set<string>();
+    let request: WefyPageRequest | null | undefined = this.strategy.first ? this.strategy.first(this.first) : this.first;
+    
+    for (let index = 0; request && index < maxPages; index++) {
+      const key = JSON.stringify(request);
+      if (requested.has(key)) {
+        return;
+      }
+      requested.add(key);
+      this.throwIfAborted();
+      
+      const {response, data} = await this.fetchPage(request);
+      const page: WefyPage<Item, Page> = {items: this.strategy.items(data, response), data, response, request, index};
+      yield page;
+      request = this.strategy.next(page);
+    }
+  }
+  
+  async* [Symbol.asyncIterator](): AsyncGenerator<Item, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+  
+  /**
+   * Collects the items of every page
+   */
+  async all(): Promise<Item[]> {
+    const items: Item[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+  
+  private throwIfAborted(): void {
+    const aborted = this.options.signals?.find((signal) => signal?.aborted);
+    if (aborted) {
+      throw aborted.reason;
+    }
+  }
+}
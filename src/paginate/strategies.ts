@@ -0,0 +1,92 @@
+import {findLink} from "./link";
+import {
+  WefyCursorPaginationOptions,
+  WefyLinkPaginationOptions,
+  WefyOffsetPaginationOptions,
+  WefyPagePaginationOptions,
+  WefyPaginationStrategy
+} from "./types";
+
+const ITEM_KEYS = ["items", "data", "results"];
+
+/**
+ * Items of a page that is an array, or an object holding one as `items`, `data` or `results`
+ */
+function defaultItems<Item>(data: unknown): Item[] {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (data && typeof data === "object") {
+    const list = ITEM_KEYS.map((key) => (data as Record<string, unknown>)[key]).find(Array.isArray);
+    return list ?? [];
+  }
+  return [];
+}
+
+/**
+ * Follows the `rel="next"` link of the `Link` response header until a page has none
+ */
+export function linkPagination<Item = unknown, Page = unknown>(options: WefyLinkPaginationOptions<Item, Page> = {}): WefyPaginationStrategy<Item, Page> {
+  const {rel = "next", items = defaultItems} = options;
+  
+  return {
+    items,
+    next({response}) {
+      const url = findLink(response.headers.get("link"), rel, response.url);
+      return url ? {path: url} : null;
+    },
+  };
+}
+
+/**
+ * Sends the cursor read from each page as a query parameter until a page has none
+ */
+export function cursorPagination<Item = unknown, Page = unknown>(options: WefyCursorPaginationOptions<Item, Page>): WefyPaginationStrategy<Item, Page> {
+  const {cursor, param = "cursor", items = defaultItems} = options;
+  
+  return {
+    items,
+    next({data, response, request}) {
+      const value = cursor(data, response);
+      return value === null || value === undefined || value === "" ? null : {...request, params: {...request.params, [param]: value}};
+    },
+  };
+}
+
+/**
+ * Sends `offset` and `limit` query parameters until a page holds fewer than `limit` items
+ */
+export function offsetPagination<Item = unknown, Page = unknown>(options: WefyOffsetPaginationOptions<Item, Page>): WefyPaginationStrategy<Item, Page> {
+  const {limit, start = 0, offsetParam = "offset", limitParam = "limit", items = defaultItems} = options;
+  
+  return {
+    items,
+    first: (request) => ({...request, params: {...request.params, [offsetParam]: start, [limitParam]: limit}}),
+    next({items: received, request}) {
+      if (received.length < limit) {
+        return null;
+      }
+      return {...request, params: {...request.params, [offsetParam]: Number(request.params?.[offsetParam] ?? start) + received.length}};
+    },
+  };
+}
+
+/**
+ * Sends a page number query parameter until a page is empty, or holds fewer than `size` items when set
+ */
+export function pagePagination<Item = unknown, Page = unknown>(options: WefyPagePaginationOptions<Item, Page> = {}): WefyPaginationStrategy<Item, Page> {
+  const {start = 1, pageParam = "page", size, sizeParam = "per_page", items = defaultItems} = options;
+  
+  return {
+    items,
+    first: (request) => ({
+      ...request, params: {...request.params, [pageParam]: start, ...size === undefined ? {} : {[sizeParam]: size}},
+    }),
+    next({items: received, request}) {
+      if (received.length === 0 || (size !== undefined && received.length < size)) {
+        return null;
+      }
+      return {...request, params: {...request.params, [pageParam]: Number(request.params?.[pageParam] ?? start) + 1}};
+    },
+  };
+}
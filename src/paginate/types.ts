@@ -0,0 +1,122 @@
+import type {Params, WefyRequestConfig} from "@/core/types.ts";
+
+/**
+ * Path and query of a page request. Absolute paths, such as `Link` targets, are sent as they are.
+ */
+export interface WefyPageRequest {
+  path: string;
+  params?: Params;
+}
+
+export interface WefyPage<Item, Page = unknown> {
+  items: Item[];
+  /**
+   * Parsed response body
+   */
+  data: Page;
+  response: Response;
+  request: WefyPageRequest;
+  /**
+   * Zero-based position of the page
+   */
+  index: number;
+}
+
+/**
+ * Extracts the items of a page from its parsed body
+ */
+export type WefyItemsExtractor<Item, Page> = (data: Page, response: Response) => Item[];
+
+/**
+ * Decides which pages a paginator requests, see `linkPagination`, `cursorPagination`, `offsetPagination`
+ * and `pagePagination`
+ */
+export interface WefyPaginationStrategy<Item = unknown, Page = unknown> {
+  /**
+   * Request of the first page, built from the path and params passed to `paginate`
+   */
+  first?(request: WefyPageRequest): WefyPageRequest;
+  
+  items: WefyItemsExtractor<Item, Page>;
+  
+  /**
+   * Request of the page after `page`, nothing once it was the last
+   */
+  next(page: WefyPage<Item, Page>): WefyPageRequest | null | undefined;
+}
+
+/**
+ * Fetches a page, resolving to its response and parsed body
+ */
+export type WefyPageFetcher<Page> = (request: WefyPageRequest) => Promise<{ response: Response; data: Page }>;
+
+export interface WefyPaginatorOptions {
+  maxPages?: number;
+  /**
+   * Signals stopping the iteration before the next page is requested
+   */
+  signals?: (AbortSignal | null | undefined)[];
+}
+
+export interface WefyPaginateConfig extends WefyRequestConfig {
+  /**
+   * Pages fetched at most before iteration stops (default: 100)
+   */
+  maxPages?: number;
+}
+
+export interface WefyLinkPaginationOptions<Item, Page> {
+  /**
+   * Relation of the link to follow (default: "next")
+   */
+  rel?: string;
+  items?: WefyItemsExtractor<Item, Page>;
+}
+
+export interface WefyCursorPaginationOptions<Item, Page> {
+  /**
+   * Cursor of the next page read from a page, none on the last page
+   */
+  cursor: (data: Page, response: Response) => string | number | null | undefined;
+  /**
+   * Query parameter carrying the cursor (default: "cursor")
+   */
+  param?: string;
+  items?: WefyItemsExtractor<Item, Page>;
+}
+
+export interface WefyOffsetPaginationOptions<Item, Page> {
+  /**
+   * Items requested per page, a shorter page is the last
+   */
+  limit: number;
+  /**
+   * Offset of the first page (default: 0)
+   */
+  start?: number;
+  offsetParam?: string;
+  limitParam?: string;
+  items?: WefyItemsExtractor<Item, Page>;
+}
+
+export interface WefyPagePaginationOptions<Item, Page> {
+  /**
+   * Number of the first page (default: 1)
+   */
+  start?: number;
+  pageParam?: string;
+  /**
+   * Items requested per page, sent as `sizeParam`; a shorter page is the last. Without it, an empty page is.
+   */
+  size?: number;
+  sizeParam?: string;
+  items?: WefyItemsExtractor<Item, Page>;
+}
+
+/**
+ * Link of a `Link` header, `params` holds its parameters such as `rel`
+ */
+export interface WefyLink {
+  url: string;
+  params: Record<string, string>;
+}
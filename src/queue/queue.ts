@@ -0,0 +1,128 @@
+import {WefyTimeoutError} from "@/core/error.ts";
+import {WefyQueueEntryOptions, WefyQueueOptions} from "./types";
+
+interface Waiter {
+  origin: string;
+  priority: number;
+  start: () => void;
+}
+
+/**
+ * Priority queue limiting the requests running at once, in total and per origin
+ */
+export class WefyRequestQueue {
+  private readonly max: number;
+  private readonly perOrigin: number;
+  private readonly waiting: Waiter[] = [];
+  private readonly running = new Map<string, number>();
+  private active = 0;
+  
+  constructor(options: WefyQueueOptions = {}) {
+    this.max = options.max ?? Infinity;
+    this.perOrigin = options.perOrigin ?? Infinity;
+  }
+  
+  /**
+   * Requests waiting for a slot
+   */
+  get size(): number {
+    return this.waiting.length;
+  }
+  
+  /**
+   * Requests holding a slot
+   */
+  get pending(): number {
+    return this.active;
+  }
+  
+  /**
+   * Waits for a slot for a request to `origin`
+   * @returns Function releasing the slot, safe to call more than once
+   */
+  acquire(origin: string, options: WefyQueueEntryOptions = {}): Promise<() => void> {
+    const {priority = 0, timeout, signal} = options;
+    
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const leave = (reason: unknown) => {
+        const index = this.waiting.indexOf(waiter);
+        if (index !== -1) {
+          this.waiting.splice(index, 1);
+          cleanup();
+          reject(reason);
+        }
+      };
+      const onAbort = () => leave(signal?.reason);
+      
+      const waiter: Waiter = {
+        origin, priority, start: () => {
+          cleanup();
+          resolve(this.occupy(origin));
+        },
+      };
+      
+      if (this.hasCapacity(origin)) {
+        waiter.start();
+        return;
+      }
+      
+      // Inserted after every waiter of the same or a higher priority
+      const index = this.waiting.findIndex((queued) => queued.priority < priority);
+      this.waiting.splice(index === -1 ? this.waiting.length : index, 0, waiter);
+      
+      signal?.addEventListener("abort", onAbort, {once: true});
+      if (timeout && timeout > 0) {
+        timeoutId = setTimeout(() => leave(new WefyTimeoutError(timeout, "queue")), timeout);
+      }
+    });
+  }
+  
+  private hasCapacity(origin: string): boolean {
+    return this.active < this.max && (this.running.get(origin) ?? 0) < this.perOrigin;
+  }
+  
+  private occupy(origin: string): () => void {
+    this.active++;
+    this.running.set(origin, (this.running.get(origin) ?? 0) + 1);
+    
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      
+      this.active--;
+      const count = this.running.get(origin)! - 1;
+      if (count > 0) {
+        this.running.set(origin, count);
+      } else {
+        this.running.delete(origin);
+      }
+      this.next();
+    };
+  }
+  
+  /**
+   * Starts the first waiters in priority order whose origin has a free slot
+   */
+  private next(): void {
+    for (let index = 0; index < this.waiting.length && this.active < this.max;) {
+      const waiter = this.waiting[index];
+      if (this.hasCapacity(waiter.origin)) {
+        this.waiting.splice(index, 1);
+        waiter.start();
+      } else {
+        index++;
+      }
+    }
+  }
+}
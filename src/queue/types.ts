@@ -0,0 +1,28 @@
+/**
+ * Limits on the requests a client runs at once, further requests wait in its queue
+ */
+export interface WefyQueueOptions {
+  /**
+   * Requests running at once across all origins (default: unlimited)
+   */
+  max?: number;
+  /**
+   * Requests running at once per origin (default: unlimited)
+   */
+  perOrigin?: number;
+}
+
+export interface WefyQueueEntryOptions {
+  /**
+   * Higher priorities leave the queue first, equal priorities in arrival order (default: 0)
+   */
+  priority?: number;
+  /**
+   * Milliseconds to wait for a slot before rejecting with a `WefyTimeoutError`
+   */
+  timeout?: number;
+  /**
+   * Aborting removes the entry from the queue
+   */
+  signal?: AbortSignal;
+}
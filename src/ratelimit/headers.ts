@@ -0,0 +1,45 @@
+import {WefyRateLimitInfo} from "./types";
+
+// Values above this are epoch seconds rather than seconds from now
+const EPOCH_THRESHOLD = 1e9;
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function resetDelay(seconds: number | undefined, now: number): number | undefined {
+  if (seconds === undefined) return undefined;
+  return Math.max(0, seconds > EPOCH_THRESHOLD ? seconds * 1000 - now : seconds * 1000);
+}
+
+/**
+ * Reads the structured `RateLimit` header (`limit=100, remaining=5, reset=30` or `"default";r=5;t=30`)
+ */
+function parseStructured(value: string | null): WefyRateLimitInfo {
+  const field = (...names: string[]) => {
+    const match = value?.match(new RegExp(`(?:^|[\\s,;])(?:${names.join("|")})=(\\d+)`));
+    return match ? Number(match[1]) : undefined;
+  };
+  return {limit: field("limit", "q"), remaining: field("remaining", "r"), reset: field("reset", "t")};
+}
+
+/**
+ * Reads the rate limit state from `RateLimit`, `RateLimit-*` or `X-RateLimit-*` headers
+ * @returns Undefined when the response carries no remaining count
+ */
+export function parseRateLimitHeaders(headers: Headers, now = Date.now()): WefyRateLimitInfo | undefined {
+  const structured = parseStructured(headers.get("ratelimit"));
+  const read = (name: string) => parseNumber(headers.get(`ratelimit-${name}`)) ?? parseNumber(headers.get(`x-ratelimit-${name}`));
+  
+  const remaining = read("remaining") ?? structured.remaining;
+  if (remaining === undefined) {
+    return undefined;
+  }
+  return {
+    limit: read("limit") ?? structured.limit,
+    remaining,
+    reset: resetDelay(read("reset") ?? structured.reset, now),
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./types";
+export {WefyRateLimiter} from "./limiter";
+export {parseRateLimitHeaders} from "./headers";
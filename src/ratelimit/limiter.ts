@@ -0,0 +1,123 @@
+import {parseRetryAfter, sleep} from "@/core/retry.ts";
+import {parseRateLimitHeaders} from "./headers";
+import {WefyRateLimitEvent, WefyRateLimitListener, WefyRateLimitOptions} from "./types";
+
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
+/**
+ * Token bucket delaying requests over the limit instead of failing them. Unless disabled, it also
+ * follows the rate limit reported by responses, pausing requests to that origin until the server's window resets.
+ */
+export class WefyRateLimiter {
+  private readonly capacity: number;
+  private readonly interval: number;
+  private readonly adaptive: boolean;
+  private readonly listeners = new Set<WefyRateLimitListener>();
+  private tokens: number;
+  private refilledAt = Date.now();
+  /**
+   * End of the pause of each origin
+   */
+  private readonly pausedUntil = new Map<string, number>();
+  
+  constructor(options: WefyRateLimitOptions = {}) {
+    this.capacity = options.limit ?? Infinity;
+    this.interval = options.interval ?? 1000;
+    this.adaptive = options.adaptive ?? true;
+    this.tokens = this.capacity;
+    if (options.onEvent) {
+      this.listeners.add(options.onEvent);
+    }
+  }
+  
+  /**
+   * Adds an event listener
+   * @returns Function removing the listener
+   */
+  on(listener: WefyRateLimitListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+  
+  /**
+   * Resolves once a request to `url` may be sent, taking a token
+   */
+  async acquire(url: string, signal?: AbortSignal | null): Promise<void> {
+    const origin = new URL(url).origin;
+    let delayed = false;
+    
+    for (; ;) {
+      this.refill();
+      const now = Date.now();
+      const pausedUntil = this.pausedUntil.get(origin) ?? 0;
+      if (pausedUntil && pausedUntil <= now) {
+        this.pausedUntil.delete(origin);
+      }
+      const wait = Math.max(pausedUntil - now, this.tokens >= 1 ? 0 : (1 - this.tokens) * this.interval / this.capacity);
+      if (wait <= 0) {
+        this.tokens -= 1;
+        return;
+      }
+      
+      if (!delayed) {
+        delayed = true;
+        this.emit({type: "delay", url, wait});
+      }
+      await sleep(wait, signal);
+    }
+  }
+  
+  /**
+   * Adapts to the rate limit state and `Retry-After` of a response to a request to `url`
+   */
+  update(url: string, response: Response): void {
+    if (!this.adaptive) {
+      return;
+    }
+    
+    const origin = new URL(url).origin;
+    const retryAfter = RETRY_AFTER_STATUSES.has(response.status) ? parseRetryAfter(response.headers.get("retry-after")) : undefined;
+    if (retryAfter !== undefined) {
+      this.pause(origin, retryAfter, "retry-after");
+    }
+    
+    const info = parseRateLimitHeaders(response.headers);
+    if (!info) {
+      return;
+    }
+    if (this.capacity !== Infinity) {
+      this.refill();
+      this.tokens = Math.min(this.tokens, info.remaining!);
+    }
+    this.emit({type: "update", info});
+    if (info.remaining === 0 && info.reset) {
+      this.pause(origin, info.reset, "exhausted");
+    }
+  }
+  
+  private pause(origin: string, wait: number, reason: "retry-after" | "exhausted"): void {
+    const until = Date.now() + wait;
+    if (until > (this.pausedUntil.get(origin) ?? 0)) {
+      this.pausedUntil.set(origin, until);
+      this.emit({type: "pause", origin, wait, reason});
+    }
+  }
+  
+  private refill(): void {
+    const now = Date.now();
+    if (this.capacity !== Infinity) {
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.refilledAt) * this.capacity / this.interval);
+    }
+    this.refilledAt = now;
+  }
+  
+  private emit(event: WefyRateLimitEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Error in rate limit listener:", error);
+      }
+    }
+  }
+}
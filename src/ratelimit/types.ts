@@ -0,0 +1,42 @@
+export interface WefyRateLimitOptions {
+  /**
+   * Requests allowed per `interval`, the bucket holds as many tokens (default: unlimited)
+   */
+  limit?: number;
+  /**
+   * Milliseconds over which `limit` tokens are refilled (default: 1000)
+   */
+  interval?: number;
+  /**
+   * Follows `RateLimit-*`, `X-RateLimit-*` and `Retry-After` response headers (default: true)
+   */
+  adaptive?: boolean;
+  /**
+   * Receives every rate limit event, the same as listeners added with `on`
+   */
+  onEvent?: WefyRateLimitListener;
+}
+
+/**
+ * Rate limit state reported by a response
+ */
+export interface WefyRateLimitInfo {
+  limit?: number;
+  remaining?: number;
+  /**
+   * Milliseconds until the server's window resets
+   */
+  reset?: number;
+}
+
+/**
+ * `delay`: a request waits for a token or for a pause to end.
+ * `update`: response headers reported the server's rate limit state.
+ * `pause`: requests to `origin` are held back after a `Retry-After`, or once the server reported no remaining requests.
+ */
+export type WefyRateLimitEvent =
+  | { type: "delay"; url: string; wait: number }
+  | { type: "update"; info: WefyRateLimitInfo }
+  | { type: "pause"; origin: string; wait: number; reason: "retry-after" | "exhausted" };
+
+export type WefyRateLimitListener = (event: WefyRateLimitEvent) => void;
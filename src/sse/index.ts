@@ -0,0 +1,3 @@
+export * from "./types";
+export {WefyEventSource} from "./source";
+export {EventStreamParser} from "./parser";
@@ -0,0 +1,101 @@
+import {WefyServerSentEvent} from "./types";
+
+/**
+ * Incremental `text/event-stream` parser following the HTML specification: lines may end in
+ * CRLF, LF or CR, comments are skipped and an event is dispatched on every blank line.
+ */
+export class EventStreamParser {
+  private buffer = "";
+  private started = false;
+  private data: string[] = [];
+  private eventType = "";
+  
+  constructor(private readonly onEvent: (event: WefyServerSentEvent) => void, private readonly onRetry: (delay: number) => void, public lastEventId = "") {
+  }
+  
+  feed(chunk: string): void {
+    this.buffer += chunk;
+    if (!this.started && this.buffer) {
+      this.started = true;
+      if (this.buffer.charCodeAt(0) === 0xfeff) {
+        this.buffer = this.buffer.slice(1);
+      }
+    }
+    
+    let start = 0;
+    while (start < this.buffer.length) {
+      const cr = this.buffer.indexOf("\r", start);
+      const lf = this.buffer.indexOf("\n", start);
+      const end = cr === -1 ? lf : lf === -1 ? cr : Math.min(cr, lf);
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (end === -1 || (end === cr && end === this.buffer.length - 1)) {
+        break;
+      }
+      
+      this.processLine(this.buffer.slice(start, end));
+      start = end + (end === cr && this.buffer[end + 1] === "\n" ? 2 : 1);
+    }
+    this.buffer = this.buffer.slice(start);
+  }
+  
+  /**
+   * Resets the parser for a new connection, an unterminated event is discarded
+   */
+  reset(): void {
+    this.buffer = "";
+    this.started = false;
+    this.data = [];
+    this.eventType = "";
+  }
+  
+  private processLine(line: string): void {
+    if (line === "") {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(":")) {
+      return;
+    }
+    
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+    
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.data.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) {
+          this.lastEventId = value;
+        }
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) {
+          this.onRetry(Number(value));
+        }
+        break;
+    }
+  }
+  
+  private dispatch(): void {
+    if (this.data.length === 0) {
+      this.eventType = "";
+      return;
+    }
+    
+    const event: WefyServerSentEvent = {event: this.eventType || "message", data: this.data.join("\n")};
+    if (this.lastEventId) {
+      event.id = this.lastEventId;
+    }
+    this.data = [];
+    this.eventType = "";
+    this.onEvent(event);
+  }
+}
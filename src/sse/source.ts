@@ -0,0 +1,253 @@
+import {WefyError, WefyHttpError} from "@/core/error.ts";
+import {sleep} from "@/core/retry.ts";
+import {createSignal, toError} from "@/core/utils.ts";
+import {EventStreamParser} from "./parser";
+import {WefyEventSourceOptions, WefyEventSourceState, WefyServerSentEvent} from "./types";
+
+type EventListener = (event: WefyServerSentEvent) => void;
+
+interface Subscriber {
+  push(event: WefyServerSentEvent): void;
+  end(error?: Error): void;
+}
+
+/**
+ * Opens a connection, resuming after `lastEventId` when set
+ */
+export type WefyEventSourceConnect = (signal: AbortSignal, lastEventId: string) => Promise<Response>;
+
+/**
+ * Server-Sent Events connection. Consume it with `for await` or with `on()` listeners; it
+ * reconnects with `Last-Event-ID` until closed, aborted or the server rejects the stream.
+ */
+export class WefyEventSource implements AsyncIterable<WefyServerSentEvent> {
+  private state: WefyEventSourceState = "connecting";
+  private readonly controller = new AbortController();
+  private readonly parser: EventStreamParser;
+  private readonly listeners = new Map<string, Set<(...args: never[]) => void>>();
+  private readonly subscribers = new Set<Subscriber>();
+  private retryDelay: number;
+  
+  /**
+   * @param connect Opens a connection
+   * @param options Reconnection settings and the signals that close the source
+   */
+  constructor(private readonly connect: WefyEventSourceConnect, private readonly options: WefyEventSourceOptions & {
+    signals?: (AbortSignal | null | undefined)[]
+  } = {}) {
+    this.retryDelay = options.retryDelay ?? 3000;
+    this.parser = new EventStreamParser((event) => this.dispatch(event), (delay) => {
+      this.retryDelay = delay;
+    }, options.lastEventId);
+    
+    const closeSignal = createSignal(...options.signals ?? []);
+    this.controller.signal.addEventListener("abort", closeSignal.cleanup, {once: true});
+    if (closeSignal.signal.aborted) {
+      this.close();
+      return;
+    }
+    closeSignal.signal.addEventListener("abort", () => this.close(), {once: true});
+    void this.run();
+  }
+  
+  get readyState(): WefyEventSourceState {
+    return this.state;
+  }
+  
+  get lastEventId(): string {
+    return this.parser.lastEventId;
+  }
+  
+  /**
+   * Listens for events of a type, `message` for unnamed events. `open` receives each connected
+   * response and `error` every failure, including the one that ends the stream.
+   * @returns Function removing the listener
+   */
+  on(type: "open", listener: (response: Response) => void): () => void;
+  
+  on(type: "error", listener: (error: Error) => void): () => void;
+  
+  on(type: string, listener: EventListener): () => void;
+  
+  on(type: string, listener: (...args: never[]) => void): () => void {
+    const listeners = this.listeners.get(type) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(type, listeners);
+    return () => this.off(type, listener);
+  }
+  
+  off(type: string, listener: (...args: never[]) => void): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+  
+  /**
+   * Closes the connection and ends all iterators
+   */
+  close(): void {
+    if (this.state === "closed") {
+      return;
+    }
+    this.state = "closed";
+    this.controller.abort();
+    this.subscribers.forEach((subscriber) => subscriber.end());
+    this.subscribers.clear();
+  }
+  
+  /**
+   * Iterates over all events. Leaving the loop early closes the source.
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<WefyServerSentEvent> {
+    const buffer: WefyServerSentEvent[] = [];
+    let waiting: { resolve: (result: IteratorResult<WefyServerSentEvent>) => void; reject: (error: Error) => void } | null = null;
+    let finished = this.state === "closed";
+    let failure: Error | undefined;
+    
+    const subscriber: Subscriber = {
+      push: (event) => {
+        if (waiting) {
+          waiting.resolve({value: event, done: false});
+          waiting = null;
+        } else {
+          buffer.push(event);
+        }
+      }, end: (error) => {
+        finished = true;
+        failure = error;
+        if (waiting) {
+          if (error) waiting.reject(error); else waiting.resolve({value: undefined, done: true});
+          waiting = null;
+          failure = undefined;
+        }
+      },
+    };
+    if (!finished) {
+      this.subscribers.add(subscriber);
+    }
+    
+    const iterator: AsyncIterableIterator<WefyServerSentEvent> = {
+      next: () => {
+        if (buffer.length > 0) {
+          return Promise.resolve({value: buffer.shift()!, done: false});
+        }
+        if (finished) {
+          const error = failure;
+          failure = undefined;
+          return error ? Promise.reject(error) : Promise.resolve({value: undefined, done: true});
+        }
+        return new Promise((resolve, reject) => {
+          waiting = {resolve, reject};
+        });
+      }, return: () => {
+        this.subscribers.delete(subscriber);
+        this.close();
+        return Promise.resolve({value: undefined, done: true});
+      }, [Symbol.asyncIterator]: () => iterator,
+    };
+    return iterator;
+  }
+  
+  private async run(): Promise<void> {
+    const signal = this.controller.signal;
+    let failures = 0;
+    
+    while (!signal.aborted) {
+      this.state = "connecting";
+      this.parser.reset();
+      
+      try {
+        const response = await this.connect(signal, this.parser.lastEventId);
+        if (response.status === 204) {
+          this.close();
+          return;
+        }
+        if (!response.ok) {
+          throw new WefyHttpError(response, {method: "GET", url: response.url, error: await response.text().catch(() => undefined)});
+        }
+        
+        const contentType = response.headers.get("content-type") ?? "";
+        if (!contentType.includes("text/event-stream")) {
+          throw new WefyError(`Expected a text/event-stream response but received ${contentType || "no content-type"}`, {
+            method: "GET", url: response.url, status: response.status, response,
+          });
+        }
+        
+        this.state = "open";
+        failures = 0;
+        this.emit("open", response);
+        await this.consume(response, signal);
+      } catch (error) {
+        if (signal.aborted) {
+          break;
+        }
+        // The server rejected the stream, reconnecting would not help
+        if (error instanceof WefyHttpError || (error instanceof WefyError && error.response)) {
+          this.fail(error);
+          return;
+        }
+        
+        failures++;
+        const failure = toError(error);
+        if (this.options.reconnect === false || (this.options.maxRetries !== undefined && failures > this.options.maxRetries)) {
+          this.fail(failure);
+          return;
+        }
+        this.emit("error", failure);
+      }
+      
+      if (this.options.reconnect === false) {
+        this.close();
+        return;
+      }
+      await sleep(this.retryDelay, signal).catch(() => undefined);
+    }
+    
+    this.close();
+  }
+  
+  private async consume(response: Response, signal: AbortSignal): Promise<void> {
+    if (!response.body) {
+      return;
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const cancel = () => reader.cancel().catch(() => undefined);
+    signal.addEventListener("abort", cancel, {once: true});
+    
+    try {
+      while (true) {
+        const {done, value} = await reader.read();
+        if (done) {
+          return;
+        }
+        this.parser.feed(decoder.decode(value, {stream: true}));
+      }
+    } finally {
+      signal.removeEventListener("abort", cancel);
+      reader.releaseLock();
+    }
+  }
+  
+  private dispatch(event: WefyServerSentEvent): void {
+    this.subscribers.forEach((subscriber) => subscriber.push(event));
+    this.emit(event.event, event);
+  }
+  
+  private emit(type: string, payload: unknown): void {
+    this.listeners.get(type)?.forEach((listener) => {
+      try {
+        (listener as (payload: unknown) => void)(payload);
+      } catch (error) {
+        console.error(`Error in ${type} listener:`, error);
+      }
+    });
+  }
+  
+  private fail(error: Error): void {
+    this.emit("error", error);
+    const subscribers = Array.from(this.subscribers);
+    this.subscribers.clear();
+    this.close();
+    subscribers.forEach((subscriber) => subscriber.end(error));
+  }
+}
@@ -0,0 +1,40 @@
+import type {WefyRequestConfig} from "@/core/types.ts";
+
+/**
+ * Event received from a `text/event-stream`
+ */
+export interface WefyServerSentEvent {
+  /**
+   * Last event ID set by the stream, sent back as `Last-Event-ID` on reconnect
+   */
+  id?: string;
+  /**
+   * Event type, `message` unless the server named it
+   */
+  event: string;
+  data: string;
+}
+
+export type WefyEventSourceState = "connecting" | "open" | "closed";
+
+export interface WefyEventSourceOptions {
+  /**
+   * Reconnect after the stream ended or the connection failed (default: true)
+   */
+  reconnect?: boolean;
+  /**
+   * Milliseconds to wait before reconnecting, until the server sends a `retry` field (default: 3000)
+   */
+  retryDelay?: number;
+  /**
+   * Consecutive failed reconnects allowed before giving up, unlimited when unset
+   */
+  maxRetries?: number;
+  /**
+   * Event ID to resume from on the first connection
+   */
+  lastEventId?: string;
+}
+
+export interface WefySSEConfig extends Omit<WefyRequestConfig, "retry" | "cache" | "dedupe" | "schema" | "readTimeout">, WefyEventSourceOptions {
+}
@@ -0,0 +1,32 @@
+import {WefyRequestHandler, WefyTransport} from "./types";
+
+/**
+ * Transport routing every request to `handler` in the same process, for tests and
+ * for mounting an app without a server. The handler receives a standard `Request`.
+ */
+export function createHandlerTransport(handler: WefyRequestHandler): WefyTransport {
+  return {
+    name: "handler",
+    async send(url: string, init: RequestInit): Promise<Response> {
+      const signal = init.signal;
+      signal?.throwIfAborted();
+      
+      // Node requires `duplex` for streamed request bodies
+      const streamed = typeof ReadableStream !== "undefined" && init.body instanceof ReadableStream;
+      const request = new Request(url, streamed ? {...init, duplex: "half"} as RequestInit : init);
+      
+      if (!signal) {
+        return handler(request);
+      }
+      
+      return new Promise<Response>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, {once: true});
+        Promise.resolve()
+          .then(() => handler(request))
+          .then(resolve, reject)
+          .finally(() => signal.removeEventListener("abort", onAbort));
+      });
+    },
+  };
+}
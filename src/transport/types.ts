@@ -0,0 +1,18 @@
+/**
+ * Fetch-compatible function used to send requests, e.g. undici's `fetch` or an instrumented wrapper
+ */
+export type WefyFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Sends the requests of a client. Every request goes through `send` after headers, body and
+ * signal are resolved; retries, caching and deduplication happen in front of it.
+ */
+export interface WefyTransport {
+  readonly name?: string;
+  send(url: string, init: RequestInit): Promise<Response>;
+}
+
+/**
+ * Handler of the in-process transport, answering a request without any network
+ */
+export type WefyRequestHandler = (request: Request) => Response | Promise<Response>;
@@ -1,2 +1,14 @@
 export * from "./core/types";
 export * from "./extension/types";
+export * from "./cache/types";
+export * from "./transport/types";
+export * from "./mock/types";
+export * from "./fixture/types";
+export * from "./sse/types";
+export * from "./auth/types";
+export * from "./interceptor/types";
+export * from "./contract/types";
+export * from "./queue/types";
+export * from "./ratelimit/types";
+export * from "./circuit/types";
+export * from "./paginate/types";
@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import { Wefy, WefyHttpError } from "../src/core";
+import { apiKeyAuth, basicAuth, bearerAuth } from "../src/auth";
+
+describe("Auth | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  const authorization = (fetch: ReturnType<typeof vi.fn>, index: number) =>
+    new Headers((fetch.mock.calls[index][1] as RequestInit).headers).get("authorization");
+
+  /**
+   * Answers 401 unless the request carries `Bearer <valid>`
+   */
+  const protectedApi = (valid: () => string) =>
+    vi.fn(async (_: string, init: RequestInit) =>
+      new Headers(init.headers).get("authorization") === `Bearer ${valid()}`
+        ? Response.json({ ok: true })
+        : new Response("expired", { status: 401 })
+    );
+
+  it("sends a bearer token from an async provider", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const client = Wefy.create({ baseUrl, fetch, auth: bearerAuth(async () => "abc") });
+
+    await client.get("/me");
+
+    expect(authorization(fetch, 0)).toBe("Bearer abc");
+  });
+
+  it("sends basic credentials", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const client = Wefy.create({ baseUrl, fetch, auth: basicAuth("ada", "pässword") });
+
+    await client.get("/me");
+
+    expect(authorization(fetch, 0)).toBe("Basic YWRhOnDDpHNzd29yZA==");
+  });
+
+  it("sends API keys in a header or the query", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const header = Wefy.create({ baseUrl, fetch, auth: apiKeyAuth("k1") });
+    const query = Wefy.create({ baseUrl, fetch, auth: apiKeyAuth("k2", { in: "query", name: "api_key" }) });
+
+    await header.get("/a");
+    await query.get("/b", { params: { page: 1 } });
+
+    expect(new Headers(fetch.mock.calls[0][1].headers).get("x-api-key")).toBe("k1");
+    expect(fetch.mock.calls[1][0]).toBe("https://api.example.com/b?page=1&api_key=k2");
+  });
+
+  it("lets a request override or drop the client strategy", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const client = Wefy.create({ baseUrl, fetch, auth: bearerAuth("client") });
+
+    await client.get("/a", { auth: bearerAuth("request") });
+    await client.get("/b", { auth: false });
+
+    expect(authorization(fetch, 0)).toBe("Bearer request");
+    expect(authorization(fetch, 1)).toBeNull();
+  });
+
+  it("refreshes once on 401 and replays every rejected request", async () => {
+    let token = "old";
+    const fetch = protectedApi(() => "new");
+    const refresh = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      token = "new";
+    });
+    const auth = bearerAuth(() => token, { refresh });
+    const client = Wefy.create({ baseUrl, fetch, auth });
+    // A second client built from the same strategy, like a scope or decorated client
+    const other = Wefy.create({ baseUrl: `${baseUrl}/v2`, fetch, auth });
+
+    const results = await Promise.all([client.get("/a"), client.get("/b"), other.get("/c")]);
+
+    expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }]);
+    expect(refresh).toHaveBeenCalledOnce();
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it("holds new requests until a running refresh finished", async () => {
+    let token = "old";
+    let finishRefresh!: () => void;
+    const fetch = protectedApi(() => "new");
+    const auth = bearerAuth(() => token, {
+      refresh: () =>
+        new Promise<void>((resolve) => {
+          finishRefresh = () => {
+            token = "new";
+            resolve();
+          };
+        }),
+    });
+    const client = Wefy.create({ baseUrl, fetch, auth });
+
+    const first = client.get("/a");
+    await vi.waitFor(() => expect(finishRefresh).toBeDefined());
+    const queued = client.get("/b");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    finishRefresh();
+    await expect(Promise.all([first, queued])).resolves.toEqual([{ ok: true }, { ok: true }]);
+    expect(authorization(fetch, 2)).toBe("Bearer new");
+  });
+
+  it("uses the token returned by refresh and replays raw requests", async () => {
+    const fetch = protectedApi(() => "fresh");
+    const client = Wefy.create({
+      baseUrl,
+      fetch,
+      auth: bearerAuth("stale", { refresh: async () => "fresh" }),
+    });
+
+    const response = await client.raw.get("/me");
+
+    expect(response.status).toBe(200);
+    expect(authorization(fetch, 1)).toBe("Bearer fresh");
+  });
+
+  it("goes back to the provider once it returns a new token", async () => {
+    let token = "stale";
+    const fetch = protectedApi(() => token === "rotated" ? "rotated" : "fresh");
+    const client = Wefy.create({
+      baseUrl,
+      fetch,
+      auth: bearerAuth(() => token, { refresh: async () => "fresh" }),
+    });
+
+    await client.get("/a");
+    expect(authorization(fetch, 1)).toBe("Bearer fresh");
+
+    token = "rotated";
+    await client.get("/b");
+    expect(authorization(fetch, 2)).toBe("Bearer rotated");
+  });
+
+  it("gives up when the replayed request is rejected again", async () => {
+    const fetch = protectedApi(() => "never");
+    const refresh = vi.fn();
+    const client = Wefy.create({ baseUrl, fetch, auth: bearerAuth("t", { refresh }) });
+
+    await expect(client.get("/me")).rejects.toBeInstanceOf(WefyHttpError);
+    expect(refresh).toHaveBeenCalledOnce();
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
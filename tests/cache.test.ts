@@ -0,0 +1,287 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { Wefy, WefyConfig } from "../src/core";
+import {
+  MemoryCacheStorage,
+  parseCacheControl,
+  WefyCacheEntry,
+  WefyCacheStorage,
+} from "../src/cache";
+
+type FetchCall = [string, RequestInit];
+
+describe("Cache | Wefy", () => {
+  const config: WefyConfig = {
+    baseUrl: "https://api.example.com",
+    cache: true,
+  };
+
+  const json = (data: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...headers },
+    });
+
+  const requestHeaders = (index: number) =>
+    new Headers((vi.mocked(fetch).mock.calls[index] as FetchCall)[1].headers);
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = vi.fn();
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("serves fresh responses from the cache", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(
+      json({ n: 1 }, { "Cache-Control": "max-age=60" })
+    );
+    const client = Wefy.create(config);
+
+    await expect(client.get("/items")).resolves.toEqual({ n: 1 });
+    await expect(client.get("/items")).resolves.toEqual({ n: 1 });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("keys entries by method and full URL", async () => {
+    vi.mocked(fetch).mockImplementation(async (url) =>
+      json({ url }, { "Cache-Control": "max-age=60" })
+    );
+    const client = Wefy.create(config);
+
+    await client.get("/items", { params: { page: 1 } });
+    await client.get("/items", { params: { page: 2 } });
+    await client.get("/items", { params: { page: 1 } });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not store no-store responses", async () => {
+    vi.mocked(fetch).mockImplementation(async () =>
+      json({ n: 1 }, { "Cache-Control": "no-store, max-age=60" })
+    );
+    const client = Wefy.create(config);
+
+    await client.get("/items");
+    await client.get("/items");
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("revalidates with If-None-Match and serves 304s from the cache", async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(json({ n: 1 }, { ETag: '"v1"', "Cache-Control": "no-cache" }))
+      .mockResolvedValueOnce(new Response(null, { status: 304, headers: { ETag: '"v1"' } }));
+    const client = Wefy.create(config);
+
+    await client.get("/items");
+    const response = await client.raw.get("/items");
+
+    expect(requestHeaders(1).get("If-None-Match")).toBe('"v1"');
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ n: 1 });
+  });
+
+  it("revalidates with If-Modified-Since once stale", async () => {
+    const lastModified = "Wed, 01 Jan 2025 00:00:00 GMT";
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(
+        json({ n: 1 }, { "Last-Modified": lastModified, "Cache-Control": "max-age=0" })
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const client = Wefy.create(config);
+
+    await client.get("/items");
+    await expect(client.get("/items")).resolves.toEqual({ n: 1 });
+
+    expect(requestHeaders(1).get("If-Modified-Since")).toBe(lastModified);
+  });
+
+  it("replaces the entry when revalidation returns a new body", async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(json({ n: 1 }, { ETag: '"v1"', "Cache-Control": "no-cache" }))
+      .mockResolvedValueOnce(json({ n: 2 }, { ETag: '"v2"', "Cache-Control": "max-age=60" }));
+    const client = Wefy.create(config);
+
+    await client.get("/items");
+    await expect(client.get("/items")).resolves.toEqual({ n: 2 });
+    await expect(client.get("/items")).resolves.toEqual({ n: 2 });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("separates variants listed in Vary", async () => {
+    vi.mocked(fetch).mockImplementation(async (_, init) =>
+      json(
+        { lang: new Headers(init?.headers).get("Accept-Language") },
+        { "Cache-Control": "max-age=60", Vary: "Accept-Language" }
+      )
+    );
+    const client = Wefy.create(config);
+    const lang = (value: string) => ({
+      options: { headers: { "Accept-Language": value } },
+    });
+
+    await expect(client.get("/greeting", lang("en"))).resolves.toEqual({ lang: "en" });
+    await expect(client.get("/greeting", lang("et"))).resolves.toEqual({ lang: "et" });
+    await expect(client.get("/greeting", lang("et"))).resolves.toEqual({ lang: "et" });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps every Vary variant", async () => {
+    vi.mocked(fetch).mockImplementation(async (_, init) =>
+      json(
+        { lang: new Headers(init?.headers).get("Accept-Language") },
+        { "Cache-Control": "max-age=60", Vary: "Accept-Language" }
+      )
+    );
+    const client = Wefy.create(config);
+    const lang = (value: string) => ({ options: { headers: { "Accept-Language": value } } });
+
+    await client.get("/greeting", lang("en"));
+    await client.get("/greeting", lang("et"));
+    await expect(client.get("/greeting", lang("en"))).resolves.toEqual({ lang: "en" });
+    await expect(client.get("/greeting", lang("et"))).resolves.toEqual({ lang: "et" });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps responses apart per credential and auth strategy", async () => {
+    vi.mocked(fetch).mockImplementation(async (_, init) =>
+      json({ user: new Headers(init?.headers).get("Authorization") }, { "Cache-Control": "max-age=60" })
+    );
+    const client = Wefy.create(config)
+      .decorate("ada", { options: { headers: { Authorization: "Bearer ada" } } })
+      .decorate("bob", { options: { headers: { Authorization: "Bearer bob" } } })
+      .decorate("keyed", { auth: { apply: ({ headers }) => headers.set("X-Api-Key", "k") } });
+
+    await expect(client.ada.get("/me")).resolves.toEqual({ user: "Bearer ada" });
+    await expect(client.bob.get("/me")).resolves.toEqual({ user: "Bearer bob" });
+    await expect(client.keyed.get("/me")).resolves.toEqual({ user: null });
+    await expect(client.get("/me")).resolves.toEqual({ user: null });
+    await expect(client.ada.get("/me")).resolves.toEqual({ user: "Bearer ada" });
+
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("serves fresh hits without taking a queue slot or rate limit token", async () => {
+    vi.mocked(fetch).mockImplementation(async () => json({ n: 1 }, { "Cache-Control": "max-age=60" }));
+    const client = Wefy.create({ ...config, maxConcurrent: 1, rateLimit: { limit: 1, interval: 60_000 } });
+
+    await client.get("/items");
+    const pending = client.get("/slow", { cache: false });
+    await expect(client.get("/items")).resolves.toEqual({ n: 1 });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    pending.catch(() => undefined);
+  });
+
+  it("returns responses before their body was stored", async () => {
+    let finish: () => void = () => {};
+    vi.mocked(fetch).mockImplementation(async () => {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"n":'));
+          finish = () => {
+            controller.enqueue(new TextEncoder().encode("1}"));
+            controller.close();
+          };
+        },
+      });
+      return new Response(body, { headers: { "Content-Type": "application/json", "Cache-Control": "max-age=60" } });
+    });
+    const client = Wefy.create(config);
+
+    const response = await client.raw.get("/items");
+    finish();
+    await expect(response.json()).resolves.toEqual({ n: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await expect(client.get("/items")).resolves.toEqual({ n: 1 });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("honours request no-store and cache: false", async () => {
+    vi.mocked(fetch).mockImplementation(async () =>
+      json({ n: 1 }, { "Cache-Control": "max-age=60" })
+    );
+    const client = Wefy.create(config);
+
+    await client.get("/items");
+    await client.get("/items", { cache: false });
+    await client.get("/items", {
+      options: { headers: { "Cache-Control": "no-store" } },
+    });
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("invalidates a URL after a successful unsafe request", async () => {
+    vi.mocked(fetch).mockImplementation(async () =>
+      json({ n: 1 }, { "Cache-Control": "max-age=60" })
+    );
+    const client = Wefy.create(config);
+
+    await client.get("/items");
+    await client.post("/items", { name: "new" });
+    await client.get("/items");
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not cache unless enabled", async () => {
+    vi.mocked(fetch).mockImplementation(async () =>
+      json({ n: 1 }, { "Cache-Control": "max-age=60" })
+    );
+    const client = Wefy.create({ baseUrl: config.baseUrl });
+
+    await client.get("/items");
+    await client.get("/items");
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses a pluggable storage", async () => {
+    const entries = new Map<string, WefyCacheEntry>();
+    const storage: WefyCacheStorage = {
+      get: async (key) => entries.get(key),
+      set: async (key, entry) => void entries.set(key, entry),
+      delete: async (key) => void entries.delete(key),
+    };
+    vi.mocked(fetch).mockResolvedValueOnce(
+      json({ n: 1 }, { "Cache-Control": "max-age=60" })
+    );
+    const client = Wefy.create({ ...config, cache: { storage } });
+
+    await client.get("/items");
+    await expect(client.get("/items")).resolves.toEqual({ n: 1 });
+
+    expect([...entries.keys()]).toEqual(["GET https://api.example.com/items"]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Cache | utils", () => {
+  it("parses Cache-Control directives", () => {
+    const directives = parseCacheControl('Max-Age=60, no-cache, private="x"');
+    expect(directives.get("max-age")).toBe("60");
+    expect(directives.get("no-cache")).toBe(true);
+    expect(directives.get("private")).toBe("x");
+  });
+
+  it("evicts the least recently used entry", () => {
+    const storage = new MemoryCacheStorage(2);
+    const entry = {} as WefyCacheEntry;
+    storage.set("a", entry);
+    storage.set("b", entry);
+    storage.get("a");
+    storage.set("c", entry);
+
+    expect(storage.get("b")).toBeUndefined();
+    expect(storage.get("a")).toBe(entry);
+    expect(storage.size).toBe(2);
+  });
+});
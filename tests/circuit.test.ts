@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+import { Wefy, WefyHttpError } from "../src/core";
+import { WefyCircuitBreaker, WefyCircuitOpenError, WefyCircuitStateChange } from "../src/circuit";
+
+describe("Circuit breaker | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+  const failing = () => vi.fn(async () => new Response("down", { status: 503 }));
+
+  it("opens after consecutive failures and fails fast", async () => {
+    const fetch = failing();
+    const api = Wefy.create({ baseUrl, fetch, circuitBreaker: { threshold: 2 } });
+
+    await expect(api.get("/a")).rejects.toBeInstanceOf(WefyHttpError);
+    await expect(api.get("/b")).rejects.toBeInstanceOf(WefyHttpError);
+    const error = await api.get("/c").catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(WefyCircuitOpenError);
+    expect(error).toMatchObject({ key: "https://api.example.com", method: "GET", url: "https://api.example.com/c" });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(api.circuitBreaker?.state("https://api.example.com")).toBe("open");
+  });
+
+  it("counts timeouts, network errors and 5xx statuses but not client errors", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("missing", { status: 404 }))
+      .mockResolvedValueOnce(Response.json({}))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockImplementationOnce(() => new Promise(() => {}))
+      .mockResolvedValue(new Response("oops", { status: 500 }));
+    const api = Wefy.create({ baseUrl, fetch, timeout: 20, circuitBreaker: { threshold: 3 } });
+
+    await expect(api.get("/missing")).rejects.toMatchObject({ status: 404 });
+    await api.get("/ok");
+    await expect(api.get("/offline")).rejects.toThrow("Failed to fetch");
+    await expect(api.get("/slow")).rejects.toThrow("Request timeout after 20ms");
+    expect(api.circuitBreaker?.state("https://api.example.com")).toBe("closed");
+
+    await expect(api.get("/broken")).rejects.toMatchObject({ status: 500 });
+    await expect(api.get("/next")).rejects.toBeInstanceOf(WefyCircuitOpenError);
+  });
+
+  it("closes again once a half-open probe succeeds", async () => {
+    const fetch = vi.fn().mockResolvedValueOnce(new Response("down", { status: 503 })).mockResolvedValue(Response.json({}));
+    const changes: WefyCircuitStateChange[] = [];
+    const api = Wefy.create({
+      baseUrl, fetch, circuitBreaker: { threshold: 1, resetTimeout: 20, onStateChange: (change) => changes.push(change) },
+    });
+
+    await expect(api.get("/a")).rejects.toThrow();
+    await expect(api.get("/b")).rejects.toBeInstanceOf(WefyCircuitOpenError);
+    await wait(25);
+    await api.get("/c");
+    await api.get("/d");
+
+    expect(changes.map(({ from, to }) => `${from}>${to}`)).toEqual(["closed>open", "open>half-open", "half-open>closed"]);
+    expect(changes[0]).toEqual({ key: "https://api.example.com", from: "closed", to: "open", failures: 1 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("lets one probe through at a time and reopens when it fails", async () => {
+    let fail: () => void = () => {};
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("down", { status: 503 }))
+      .mockImplementationOnce(() => new Promise<Response>((resolve) => (fail = () => resolve(new Response("down", { status: 503 })))));
+    const api = Wefy.create({ baseUrl, fetch, circuitBreaker: { threshold: 1, resetTimeout: 20 } });
+
+    await expect(api.get("/a")).rejects.toThrow();
+    await wait(25);
+    const probe = api.get("/probe");
+    await expect(api.get("/other")).rejects.toBeInstanceOf(WefyCircuitOpenError);
+
+    fail();
+    await expect(probe).rejects.toMatchObject({ status: 503 });
+    expect(api.circuitBreaker?.state("https://api.example.com")).toBe("open");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps a circuit per scope when keyed by scope", async () => {
+    const fetch = vi.fn(async (url: string) => (url.includes("/payments") ? new Response("down", { status: 502 }) : Response.json({})));
+    const api = Wefy.create({ baseUrl, fetch, circuitBreaker: { threshold: 1, key: "scope" } })
+      .scope("payments", (ctx) => ({ charge: () => ctx.post("/payments") }))
+      .scope("users", (ctx) => ({ list: () => ctx.get("/users") }));
+
+    await expect(api.payments.charge()).rejects.toThrow();
+    await expect(api.payments.charge()).rejects.toBeInstanceOf(WefyCircuitOpenError);
+    await api.users.list();
+    await api.get("/health");
+
+    expect(api.circuitBreaker?.state("payments")).toBe("open");
+    expect(api.circuitBreaker?.state("users")).toBe("closed");
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("ignores aborted requests", async () => {
+    const fetch = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => init.signal?.addEventListener("abort", () => reject(init.signal?.reason)))
+    );
+    const api = Wefy.create({ baseUrl, fetch, circuitBreaker: { threshold: 1 } });
+    const controller = new AbortController();
+
+    const request = api.get("/a", { options: { signal: controller.signal } });
+    controller.abort();
+
+    await expect(request).rejects.toThrow();
+    expect(api.circuitBreaker?.state("https://api.example.com")).toBe("closed");
+  });
+
+  it("is shared with decorated clients and can be reset", async () => {
+    const breaker = new WefyCircuitBreaker({ threshold: 1 });
+    const api = Wefy.create({ baseUrl, fetch: failing(), circuitBreaker: breaker }).decorate("child", {});
+
+    await expect(api.child.get("/a")).rejects.toThrow();
+    await expect(api.get("/a")).rejects.toBeInstanceOf(WefyCircuitOpenError);
+    expect(api.child.circuitBreaker).toBe(breaker);
+
+    breaker.reset();
+    await expect(api.get("/a")).rejects.toBeInstanceOf(WefyHttpError);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+import { StandardSchemaV1, Wefy, WefyPathParamError, WefyValidationError } from "../src/core";
+import { typed } from "../src/contract";
+
+describe("Contracts | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  interface User {
+    id: number;
+    name: string;
+  }
+
+  const userSchema: StandardSchemaV1<unknown, User> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate(value) {
+        const user = value as Partial<User>;
+        return typeof user?.id === "number" && typeof user.name === "string"
+          ? { value: { id: user.id, name: user.name } }
+          : { issues: [{ message: "Expected a user" }] };
+      },
+    },
+  };
+
+  const users = Wefy.define({
+    get: { method: "GET", path: "/users/:id", response: userSchema },
+    list: { method: "GET", path: "/users", query: typed<{ page?: number }>(), response: typed<User[]>() },
+    create: { method: "POST", path: "/orgs/{org}/users", body: typed<{ name: string }>(), response: typed<User>() },
+  });
+
+  const setup = (respond: () => Response) => {
+    const fetch = vi.fn(async () => respond());
+    const api = Wefy.create({ baseUrl, fetch }).scope("users", users);
+    return { fetch, api, call: (index: number) => fetch.mock.calls[index] as unknown as [string, RequestInit] };
+  };
+
+  it("fills path parameters and sends the query", async () => {
+    const { api, call } = setup(() => Response.json([]));
+
+    await api.users.list({ query: { page: 2 } });
+    await api.users.list();
+
+    expect(call(0)[0]).toBe("https://api.example.com/users?page=2");
+    expect(call(1)[0]).toBe("https://api.example.com/users");
+  });
+
+  it("sends the body with the endpoint method", async () => {
+    const { api, call } = setup(() => Response.json({ id: 1, name: "Ada" }));
+
+    const user = await api.users.create({ params: { org: "acme corp" }, body: { name: "Ada" } });
+
+    expect(user).toEqual({ id: 1, name: "Ada" });
+    expect(call(0)[0]).toBe("https://api.example.com/orgs/acme%20corp/users");
+    expect(call(0)[1].method).toBe("POST");
+    expect(call(0)[1].body).toBe('{"name":"Ada"}');
+  });
+
+  it("validates responses against a response schema", async () => {
+    const { api, call } = setup(() => Response.json({ id: "1" }));
+
+    await expect(api.users.get({ params: { id: 1 } })).rejects.toBeInstanceOf(WefyValidationError);
+    expect(call(0)[0]).toBe("https://api.example.com/users/1");
+  });
+
+  it("merges request configuration", async () => {
+    const { api, call } = setup(() => Response.json([]));
+
+    await api.users.list({ query: { page: 1 } }, { params: { sort: "name" }, options: { headers: { "X-Test": "1" } } });
+
+    expect(call(0)[0]).toBe("https://api.example.com/users?sort=name&page=1");
+    expect(new Headers(call(0)[1].headers).get("x-test")).toBe("1");
+  });
+
+  it("rejects calls missing a path parameter", async () => {
+    const { api, fetch } = setup(() => Response.json({}));
+
+    // @ts-expect-error id is required
+    await expect(api.users.get({ params: {} })).rejects.toBeInstanceOf(WefyPathParamError);
+    // @ts-expect-error params are required
+    await expect(api.users.get()).rejects.toThrow("Path parameters do not match /users/:id: missing id");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
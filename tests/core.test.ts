@@ -1,13 +1,23 @@
 import {
   it,
   expect,
+  expectTypeOf,
   describe,
   afterAll,
   beforeEach,
   vi,
   afterEach,
 } from "vitest";
-import { Wefy, WefyConfig, WefyError } from "../src/core";
+import {
+  Wefy,
+  WefyConfig,
+  WefyError,
+  WefyHttpError,
+  WefyTimeoutError,
+  WefyValidationError,
+  StandardSchemaV1,
+  WefyProgressEvent,
+} from "../src/core";
 
 type FetchCall = [string, RequestInit];
 
@@ -116,6 +126,24 @@ describe("Core | Wefy", () => {
       expect(getFetchCall()[1][0]).toBe("https://api.example.com/test/");
     });
 
+    it("fills path parameters", async () => {
+      const client = Wefy.create(config);
+      await client.get("/users/:id/posts/{postId}", { pathParams: { id: 1, postId: "a b" }, params: { page: 2 } });
+      expect(getFetchCall()[0]).toBe("https://api.example.com/users/1/posts/a%20b?page=2");
+
+      await client.get("https://cdn.example.com/files/:name", { pathParams: { name: "x.png" } });
+      expect(getFetchCall(1)[0]).toBe("https://cdn.example.com/files/x.png");
+
+      await expect(client.get("/users/:id", { pathParams: {} } as any)).rejects.toThrow("missing id");
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps the query of absolute URLs", async () => {
+      const client = Wefy.create(config);
+      await client.get("https://cdn.example.com/files?page=2", { params: { size: 10 } });
+      expect(getFetchCall()[0]).toBe("https://cdn.example.com/files?page=2&size=10");
+    });
+
     it("handles query parameters", async () => {
       const client = Wefy.create(config);
       await client.get("/test", {
@@ -141,6 +169,15 @@ describe("Core | Wefy", () => {
       expect(searchParams.get("false")).toBe("false");
     });
 
+    it("serializes params with the client and request formats", async () => {
+      const client = Wefy.create({ ...config, arrayFormat: "brackets", nulls: "empty" });
+      await client.get("/test", { params: { ids: [1, 2], owner: null } });
+      await client.get("/test", { params: { ids: [1, 2] }, arrayFormat: "comma" });
+
+      expect(decodeURIComponent(getFetchCall(0)[0])).toBe("https://api.example.com/test?ids[]=1&ids[]=2&owner=");
+      expect(decodeURIComponent(getFetchCall(1)[0])).toBe("https://api.example.com/test?ids=1,2");
+    });
+
     it("handles URL with existing query parameters", async () => {
       const client = Wefy.create(config);
       await client.get("/test?existing=1", {
@@ -278,6 +315,152 @@ describe("Core | Wefy", () => {
     });
   });
 
+  describe("Status Validation", () => {
+    it("rejects non-2xx responses with a WefyHttpError", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        mockErrorResponse(404, { message: "User not found" })
+      );
+      const client = Wefy.create(config);
+
+      const error = await client.get("/users/1").catch((e) => e);
+
+      expect(error).toBeInstanceOf(WefyHttpError);
+      expect(error).toBeInstanceOf(WefyError);
+      expect(error.message).toBe("Request failed with status 404: User not found");
+      expect(error.status).toBe(404);
+      expect(error.method).toBe("GET");
+      expect(error.url).toBe("https://api.example.com/users/1");
+      expect(error.error).toEqual({ message: "User not found" });
+      await expect(error.response.json()).resolves.toEqual({
+        message: "User not found",
+      });
+    });
+
+    it("keeps text error bodies", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        new Response("upstream unavailable", {
+          status: 503,
+          statusText: "Service Unavailable",
+          headers: { "Content-Type": "text/plain" },
+        })
+      );
+      const client = Wefy.create(config);
+
+      const error = await client.post("/jobs").catch((e) => e);
+
+      expect(error.statusText).toBe("Service Unavailable");
+      expect(error.error).toBe("upstream unavailable");
+      expect(error.method).toBe("POST");
+    });
+
+    it("uses the client validateStatus", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        mockErrorResponse(404, { missing: true })
+      );
+      const client = Wefy.create({
+        ...config,
+        validateStatus: (status) => status < 500,
+      });
+
+      await expect(client.get("/test")).resolves.toEqual({ missing: true });
+    });
+
+    it("lets the request validateStatus override the client one", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(mockSuccessResponse());
+      const client = Wefy.create({ ...config, validateStatus: () => true });
+
+      await expect(
+        client.get("/test", { validateStatus: (status) => status === 201 })
+      ).rejects.toBeInstanceOf(WefyHttpError);
+    });
+
+    it("resolves raw requests regardless of status", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(mockErrorResponse(500));
+      const client = Wefy.create(config);
+
+      const response = await client.raw.get("/test");
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe("Timeouts", () => {
+    const hangingFetch = () =>
+      vi.fn(
+        (_: string, init: RequestInit) =>
+          new Promise<Response>((_, reject) => {
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("The operation was aborted", "AbortError"))
+            );
+          })
+      );
+
+    const slowBody = (delay: number, text = '{"slow":true}') =>
+      new Response(
+        new ReadableStream({
+          start(controller) {
+            setTimeout(() => {
+              controller.enqueue(new TextEncoder().encode(text));
+              controller.close();
+            }, delay);
+          },
+        }),
+        { status: 200, headers: { "Content-Type": "application/json" } }
+      );
+
+    it("times out while waiting for headers", async () => {
+      global.fetch = hangingFetch() as any;
+      const client = Wefy.create({ ...config, timeout: 20 });
+
+      const error = await client.get("/test").catch((e) => e);
+
+      expect(error).toBeInstanceOf(WefyTimeoutError);
+      expect(error.phase).toBe("connect");
+      expect(error.timeout).toBe(20);
+    });
+
+    it("stops the connect timeout once headers arrive", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(slowBody(40));
+      const client = Wefy.create({ ...config, timeout: 10 });
+
+      await expect(client.get("/test")).resolves.toEqual({ slow: true });
+    });
+
+    it("bounds the body read with readTimeout", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(slowBody(200));
+      const client = Wefy.create({ ...config, readTimeout: 20 });
+
+      const error = await client.get("/test").catch((e) => e);
+
+      expect(error).toBeInstanceOf(WefyTimeoutError);
+      expect(error.phase).toBe("read");
+      expect(error.message).toBe("Response read timeout after 20ms");
+    });
+
+    it("lets the request override the read timeout", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(slowBody(40));
+      const client = Wefy.create({ ...config, readTimeout: 10 });
+
+      await expect(
+        client.get("/test", { readTimeout: 500 })
+      ).resolves.toEqual({ slow: true });
+    });
+
+    it("reports a user abort instead of a timeout", async () => {
+      global.fetch = hangingFetch() as any;
+      const controller = new AbortController();
+      const client = Wefy.create(config);
+
+      const promise = client.get("/test", {
+        options: { signal: controller.signal },
+      });
+      setTimeout(() => controller.abort(), 5);
+
+      const error = await promise.catch((e) => e);
+      expect(error).not.toBeInstanceOf(WefyTimeoutError);
+      expect(error.name).toBe("AbortError");
+    });
+  });
+
   describe("Body Handling", () => {
     it("sends JSON body for POST", async () => {
       const client = Wefy.create(config);
@@ -338,6 +521,195 @@ describe("Core | Wefy", () => {
     });
   });
 
+  describe("Schema Validation", () => {
+    interface User {
+      id: number;
+      name: string;
+    }
+
+    const userSchema: StandardSchemaV1<unknown, User> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate(value) {
+          const user = value as Partial<User>;
+          const issues: StandardSchemaV1.Issue[] = [];
+          if (typeof user?.id !== "number") {
+            issues.push({ message: "Expected number", path: ["id"] });
+          }
+          if (typeof user?.name !== "string") {
+            issues.push({ message: "Required", path: [{ key: "name" }] });
+          }
+          return issues.length
+            ? { issues }
+            : { value: { id: user.id!, name: user.name!.trim() } };
+        },
+      },
+    };
+
+    it("resolves with the schema output", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        mockSuccessResponse({ id: 1, name: " Ada " })
+      );
+      const client = Wefy.create(config);
+
+      const user = await client.get("/users/1", { schema: userSchema });
+
+      expectTypeOf(user).toEqualTypeOf<User>();
+      expect(user).toEqual({ id: 1, name: "Ada" });
+    });
+
+    it("rejects with the issue paths", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(
+        mockSuccessResponse({ id: "1" })
+      );
+      const client = Wefy.create(config);
+
+      const error = await client
+        .post("/users", { name: "Ada" }, { schema: userSchema })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(WefyValidationError);
+      expect(error.message).toBe(
+        "Response validation failed: id: Expected number; name: Required"
+      );
+      expect(error.issues).toHaveLength(2);
+      expect(error.error).toEqual({ id: "1" });
+    });
+
+    it("supports async validators", async () => {
+      const asyncSchema: StandardSchemaV1<unknown, string> = {
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: async (value) =>
+            typeof value === "string"
+              ? { value }
+              : { issues: [{ message: "Expected string" }] },
+        },
+      };
+      vi.mocked(fetch).mockResolvedValueOnce(mockSuccessResponse([1]));
+      const client = Wefy.create(config);
+
+      await expect(
+        client.get("/text", { schema: asyncSchema })
+      ).rejects.toThrow("Response validation failed: Expected string");
+    });
+  });
+
+  describe("Body Serialization", () => {
+    it("serializes plain objects as JSON", async () => {
+      const client = Wefy.create(config);
+      await client.post("/users", { name: "Ada", tags: ["a"] });
+
+      const [, init] = getFetchCall();
+      expect(init.body).toBe('{"name":"Ada","tags":["a"]}');
+      expectHeader("Content-Type", "application/json");
+    });
+
+    it("serializes arrays as JSON", async () => {
+      const client = Wefy.create(config);
+      await client.put("/ids", [1, 2]);
+
+      expect(getFetchCall()[1].body).toBe("[1,2]");
+    });
+
+    it("passes native bodies through untouched", async () => {
+      const client = Wefy.create(config);
+      const bodies = [
+        new URLSearchParams({ a: "1" }),
+        new FormData(),
+        new Blob(["x"]),
+        "raw",
+      ];
+
+      for (const body of bodies) {
+        await client.post("/test", body);
+      }
+
+      bodies.forEach((body, index) => {
+        const [, init] = getFetchCall(index);
+        expect(init.body).toBe(body);
+        expect(new Headers(init.headers).get("Content-Type")).toBeNull();
+      });
+    });
+
+    it("uses the serializer matching the Content-Type header", async () => {
+      const client = Wefy.create(config);
+      await client.post(
+        "/login",
+        { user: "ada", scopes: ["read", "write"] },
+        {
+          options: {
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          },
+        }
+      );
+
+      const [, init] = getFetchCall();
+      expect(String(init.body)).toBe("user=ada&scopes=read&scopes=write");
+    });
+
+    it("treats +json vendor types as JSON", async () => {
+      const client = Wefy.create(config);
+      await client.patch(
+        "/users/1",
+        { name: "Ada" },
+        { options: { headers: { "Content-Type": "application/vnd.api+json" } } }
+      );
+
+      expect(getFetchCall()[1].body).toBe('{"name":"Ada"}');
+      expectHeader("Content-Type", "application/vnd.api+json");
+    });
+
+    it("accepts custom serializers from the client and request", async () => {
+      const ndjson = (body: unknown) =>
+        (body as unknown[]).map((line) => JSON.stringify(line)).join("\n");
+      const client = Wefy.create({
+        ...config,
+        options: { headers: { "Content-Type": "application/x-ndjson" } },
+        serializers: { "application/x-ndjson": ndjson },
+      });
+
+      await client.post("/bulk", [{ id: 1 }, { id: 2 }]);
+      await client.post("/bulk", [{ id: 3 }], {
+        serializers: { "application/x-ndjson": () => "custom" },
+      });
+
+      expect(getFetchCall(0)[1].body).toBe('{"id":1}\n{"id":2}');
+      expect(getFetchCall(1)[1].body).toBe("custom");
+    });
+
+    it("rejects bodies without a matching serializer", async () => {
+      const client = Wefy.create(config);
+
+      await expect(
+        client.post(
+          "/test",
+          { a: 1 },
+          { options: { headers: { "Content-Type": "application/xml" } } }
+        )
+      ).rejects.toThrow("No serializer registered for content-type: application/xml");
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Progress", () => {
+    it("reports browser uploads once they completed", async () => {
+      const client = Wefy.create(config);
+      const events: WefyProgressEvent[] = [];
+
+      await client.post("/upload", "hello", {
+        onUploadProgress: (event) => events.push(event),
+      });
+
+      expect(getFetchCall()[1].body).toBe("hello");
+      expect(events).toEqual([
+        expect.objectContaining({ loaded: 5, total: 5, progress: 1, done: true }),
+      ]);
+    });
+  });
+
   describe("Concurrent Requests", () => {
     it("handles multiple concurrent requests", async () => {
       const client = Wefy.create(config);
@@ -0,0 +1,207 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Wefy, WefyConfig, WefyTimeoutError } from "../src/core";
+
+describe("Deduplication | Wefy", () => {
+  const config: WefyConfig = { baseUrl: "https://api.example.com" };
+
+  const deferred = () => {
+    let resolve!: (response: Response) => void;
+    const promise = new Promise<Response>((res) => (resolve = res));
+    return { promise, resolve };
+  };
+
+  const json = (data: unknown) =>
+    new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const stalled = () => {
+    const body = { cancelled: false };
+    const stream = new ReadableStream<Uint8Array>({
+      pull: () => new Promise(() => {}),
+      cancel() {
+        body.cancelled = true;
+      },
+    });
+    vi.mocked(fetch).mockImplementationOnce(async () =>
+      new Response(stream, { headers: { "Content-Type": "application/json" } })
+    );
+    return body;
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = vi.fn().mockImplementation(async () => json({ id: 1 }));
+  });
+
+  it("shares one fetch between concurrent identical GETs", async () => {
+    const client = Wefy.create(config);
+
+    const results = await Promise.all([
+      client.get("/me"),
+      client.get("/me"),
+      client.get("/me"),
+    ]);
+
+    expect(results).toEqual([{ id: 1 }, { id: 1 }, { id: 1 }]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives every caller its own readable response", async () => {
+    const client = Wefy.create(config);
+
+    const [first, second] = await Promise.all([
+      client.raw.get("/me"),
+      client.raw.get("/me"),
+    ]);
+
+    expect(first).not.toBe(second);
+    await expect(first.json()).resolves.toEqual({ id: 1 });
+    await expect(second.json()).resolves.toEqual({ id: 1 });
+  });
+
+  it("takes one rate limit token and queue slot for a shared fetch", async () => {
+    const events: unknown[] = [];
+    const client = Wefy.create({
+      ...config, maxConcurrent: 1, rateLimit: { limit: 1, interval: 60_000, onEvent: (event) => events.push(event) },
+    });
+
+    const results = await Promise.all([client.get("/me"), client.get("/me"), client.get("/me")]);
+
+    expect(results).toEqual([{ id: 1 }, { id: 1 }, { id: 1 }]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([]);
+  });
+
+  it("keys requests on URL and headers", async () => {
+    const client = Wefy.create(config);
+
+    await Promise.all([
+      client.get("/me", { params: { a: 1 } }),
+      client.get("/me", { params: { a: 2 } }),
+      client.get("/me", { options: { headers: { Authorization: "Bearer x" } } }),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not share requests once the first one settled", async () => {
+    const client = Wefy.create(config);
+
+    await client.get("/me");
+    await client.get("/me");
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("never deduplicates unsafe methods", async () => {
+    const client = Wefy.create(config);
+
+    await Promise.all([client.post("/items", { a: 1 }), client.post("/items", { a: 1 })]);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("supports per-request and per-client opt-out", async () => {
+    const client = Wefy.create(config);
+    await Promise.all([client.get("/me"), client.get("/me", { dedupe: false })]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    const disabled = Wefy.create({ ...config, dedupe: false });
+    await Promise.all([disabled.get("/me"), disabled.get("/me")]);
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("keeps the shared fetch alive when one caller aborts", async () => {
+    const response = deferred();
+    vi.mocked(fetch).mockImplementationOnce(() => response.promise);
+    const client = Wefy.create(config);
+    const controller = new AbortController();
+
+    const aborted = client.get("/me", { options: { signal: controller.signal } });
+    const waiting = client.get("/me");
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+
+    controller.abort();
+    await expect(aborted).rejects.toThrow();
+
+    const signal = vi.mocked(fetch).mock.calls[0][1]?.signal;
+    expect(signal?.aborted).toBe(false);
+
+    response.resolve(json({ id: 2 }));
+    await expect(waiting).resolves.toEqual({ id: 2 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts the shared fetch once every caller aborted", async () => {
+    vi.mocked(fetch).mockImplementationOnce(
+      (_, init) =>
+        new Promise((_, reject) =>
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason))
+        )
+    );
+    const client = Wefy.create(config);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const requests = [
+      client.get("/me", { options: { signal: first.signal } }),
+      client.get("/me", { options: { signal: second.signal } }),
+    ];
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    const signal = vi.mocked(fetch).mock.calls[0][1]?.signal;
+
+    first.abort();
+    expect(signal?.aborted).toBe(false);
+    second.abort();
+    expect(signal?.aborted).toBe(true);
+
+    await Promise.all(requests.map((request) => expect(request).rejects.toThrow()));
+  });
+
+  it("rejects every caller when the shared fetch fails", async () => {
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    const client = Wefy.create(config);
+
+    const results = await Promise.allSettled([client.get("/me"), client.get("/me")]);
+
+    expect(results.map((result) => result.status)).toEqual(["rejected", "rejected"]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels the shared body once every caller aborted while reading it", async () => {
+    const body = stalled();
+    const client = Wefy.create(config);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const aborted = client.get("/me", { options: { signal: first.signal } });
+    const waiting = client.get("/me", { options: { signal: second.signal } });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    first.abort();
+    await expect(aborted).rejects.toThrow();
+    expect(body.cancelled).toBe(false);
+
+    second.abort();
+    await expect(waiting).rejects.toThrow();
+    expect(body.cancelled).toBe(true);
+  });
+
+  it("cancels the shared body once every caller's read timed out", async () => {
+    const body = stalled();
+    const client = Wefy.create({ ...config, readTimeout: 10 });
+
+    const results = await Promise.allSettled([client.get("/me"), client.get("/me")]);
+
+    expect(results.map((result) => result.status === "rejected" && result.reason)).toEqual([
+      expect.any(WefyTimeoutError),
+      expect.any(WefyTimeoutError),
+    ]);
+    await vi.waitFor(() => expect(body.cancelled).toBe(true));
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
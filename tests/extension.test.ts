@@ -0,0 +1,286 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { Wefy } from "../src/core";
+import {
+  createExtension,
+  ExtensionError,
+  WefyExtension,
+  WefyExtensionManager,
+} from "../src/extension";
+
+describe("Extension | Wefy lifecycle", () => {
+  const baseUrl = "https://api.example.com";
+
+  const mockSuccessResponse = (data: any = { success: true }) =>
+    new Response(JSON.stringify(data), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = vi.fn().mockImplementation(async () => mockSuccessResponse());
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("runs hooks in lifecycle order", async () => {
+    const calls: string[] = [];
+    const record = (name: string) => () => {
+      calls.push(name);
+    };
+
+    const client = Wefy.create({
+      baseUrl,
+      extensions: [
+        {
+          name: "recorder",
+          hooks: {
+            init: record("init"),
+            beforeRequest: record("beforeRequest"),
+            onRequest: record("onRequest"),
+            beforeResponse: record("beforeResponse"),
+            onResponse: record("onResponse"),
+            afterSuccess: record("afterSuccess"),
+            afterRequest: record("afterRequest"),
+          },
+        },
+      ],
+    });
+
+    await expect(client.get("/test")).resolves.toEqual({ success: true });
+    await client.raw.get("/test");
+
+    expect(calls).toEqual([
+      "init",
+      "beforeRequest",
+      "onRequest",
+      "beforeResponse",
+      "onResponse",
+      "afterSuccess",
+      "afterRequest",
+      "beforeRequest",
+      "onRequest",
+      "beforeResponse",
+      "onResponse",
+      "afterSuccess",
+      "afterRequest",
+    ]);
+  });
+
+  it("executes extensions by descending priority", async () => {
+    const order: string[] = [];
+    const ext = (name: string, priority: number): WefyExtension => ({
+      name,
+      priority,
+      hooks: { beforeRequest: () => void order.push(name) },
+    });
+
+    const client = Wefy.create({
+      baseUrl,
+      extensions: [ext("low", 1), ext("high", 10), ext("default", 0)],
+    });
+    await client.get("/test");
+
+    expect(order).toEqual(["high", "low", "default"]);
+  });
+
+  it("lets hooks rewrite the request", async () => {
+    const client = Wefy.create({
+      baseUrl,
+      extensions: [
+        {
+          name: "rewrite",
+          hooks: {
+            beforeRequest(request) {
+              request.endpoint = "/rewritten";
+              request.config = { ...request.config, params: { page: 2 } };
+            },
+            onRequest(request) {
+              request.headers["x-trace"] = "abc";
+            },
+          },
+        },
+      ],
+    });
+    await client.get("/original");
+
+    const [url, init] = vi.mocked(fetch).mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://api.example.com/rewritten?page=2");
+    expect(new Headers(init.headers).get("x-trace")).toBe("abc");
+  });
+
+  it("passes the response and parsed data to response hooks", async () => {
+    const onResponse = vi.fn();
+    const afterSuccess = vi.fn();
+    const client = Wefy.create({
+      baseUrl,
+      extensions: [{ name: "observer", hooks: { onResponse, afterSuccess } }],
+    });
+
+    await client.get("/test");
+
+    expect(onResponse.mock.calls[0][0].data).toEqual({ success: true });
+    expect(onResponse.mock.calls[0][0].response).toBeInstanceOf(Response);
+    expect(afterSuccess.mock.calls[0][0].duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it("reports failed requests to onError and afterRequest", async () => {
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError("network down"));
+    const onError = vi.fn();
+    const afterRequest = vi.fn();
+    const client = Wefy.create({
+      baseUrl,
+      extensions: [{ name: "observer", hooks: { onError, afterRequest } }],
+    });
+
+    await expect(client.get("/test")).rejects.toThrow("network down");
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.anything(),
+      expect.objectContaining({ method: "GET", endpoint: "/test" })
+    );
+    expect(afterRequest.mock.calls[0][0].success).toBe(false);
+  });
+
+  it("isolates failures of non-critical extensions", async () => {
+    const onError = vi.fn();
+    const client = Wefy.create({
+      baseUrl,
+      extensions: [
+        {
+          name: "flaky",
+          hooks: {
+            beforeRequest: () => {
+              throw new Error("boom");
+            },
+            onError,
+          },
+        },
+      ],
+    });
+
+    await expect(client.get("/test")).resolves.toEqual({ success: true });
+    expect(onError.mock.calls[0][0].message).toBe("boom");
+  });
+
+  it("rejects the request when a critical extension fails", async () => {
+    const skipped = vi.fn();
+    const client = Wefy.create({
+      baseUrl,
+      extensions: [
+        {
+          name: "guard",
+          critical: true,
+          priority: 1,
+          hooks: {
+            beforeRequest: () => {
+              throw new Error("denied");
+            },
+          },
+        },
+        { name: "later", hooks: { beforeRequest: skipped } },
+      ],
+    });
+
+    await expect(client.get("/test")).rejects.toThrow(ExtensionError);
+    expect(skipped).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("initializes extensions only once", async () => {
+    const init = vi.fn();
+    const client = Wefy.create({
+      baseUrl,
+      extensions: [{ name: "once", hooks: { init } }],
+    });
+
+    await Promise.all([client.get("/a"), client.get("/b")]);
+    await client.get("/c");
+
+    expect(init).toHaveBeenCalledTimes(1);
+    expect(init.mock.calls[0][0].baseUrl).toBe(baseUrl);
+  });
+
+  it("keeps extension state across requests", async () => {
+    const seen: unknown[] = [];
+    const counter = createExtension<{ count: number }>({
+      name: "counter",
+      initialState: { count: 0 },
+      hooks: {
+        afterSuccess(_, ctx) {
+          ctx.setState((draft) => {
+            draft.count += 1;
+          });
+          ctx.setSharedState("lastCount", ctx.extensionState.count);
+        },
+        afterRequest(_, ctx) {
+          seen.push(ctx.getSharedState("lastCount"));
+        },
+      },
+    });
+    const client = Wefy.create({ baseUrl, extensions: [counter] });
+
+    await client.get("/a");
+    await client.get("/b");
+
+    expect(seen).toEqual([1, 2]);
+  });
+});
+
+describe("Extension | WefyExtensionManager", () => {
+  it("rejects duplicate and unnamed extensions", () => {
+    expect(
+      () =>
+        new WefyExtensionManager([
+          { name: "a", hooks: {} },
+          { name: "a", hooks: {} },
+        ])
+    ).toThrow("Duplicate extension name: a");
+    expect(() => new WefyExtensionManager([{ name: "", hooks: {} }])).toThrow(
+      ExtensionError
+    );
+  });
+
+  it("updates state through immer and notifies onStateChange", async () => {
+    const onStateChange = vi.fn();
+    const manager = new WefyExtensionManager([
+      { name: "counter", initialState: { count: 0 }, hooks: { onStateChange } },
+    ]);
+    const ctx = manager.getExtensionContext<{ count: number }>("counter")!;
+
+    ctx.setState((draft) => {
+      draft.count = 1;
+    });
+
+    expect(ctx.extensionState).toEqual({ count: 1 });
+    expect(Object.isFrozen(ctx.extensionState)).toBe(true);
+    expect(onStateChange).toHaveBeenCalledWith(
+      { previousState: { count: 0 }, newState: { count: 1 } },
+      ctx
+    );
+  });
+
+  it("shares state and contexts with extended managers", async () => {
+    const parentInit = vi.fn();
+    const childInit = vi.fn();
+    const parent = new WefyExtensionManager([
+      { name: "parent", initialState: { value: 1 }, hooks: { init: parentInit } },
+    ]);
+    const child = parent.extend([{ name: "child", hooks: { init: childInit } }]);
+
+    await child.initialize({ baseUrl: "https://api.example.com" });
+    await parent.initialize({ baseUrl: "https://api.example.com" });
+    child.setSharedState("token", "abc");
+
+    expect(parentInit).toHaveBeenCalledTimes(1);
+    expect(childInit).toHaveBeenCalledTimes(1);
+    expect(parent.getSharedState("token")).toBe("abc");
+    expect(child.getExtensionContext("parent")).toBe(
+      parent.getExtensionContext("parent")
+    );
+    expect(parent.hasExtension("child")).toBe(false);
+  });
+});
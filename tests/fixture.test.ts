@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from "vitest";
+import { Wefy } from "../src/core";
+import {
+  createFixtureTransport,
+  WefyFixtureMissingError,
+  WefyFixtureStore,
+  WefyHar,
+} from "../src/fixture";
+
+describe("Fixtures | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  const memoryStore = (initial?: WefyHar) => {
+    const store = {
+      har: initial,
+      read: () => store.har,
+      write: (har: WefyHar) => {
+        store.har = JSON.parse(JSON.stringify(har));
+      },
+    };
+    return store satisfies WefyFixtureStore;
+  };
+
+  const backend = () =>
+    vi.fn(async (url: string, init: RequestInit) =>
+      new Response(JSON.stringify({ url, method: init.method, body: init.body ?? null }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+
+  it("records responses and replays them without a backend", async () => {
+    const store = memoryStore();
+    const fetch = backend();
+    const recorder = Wefy.create({
+      baseUrl,
+      transport: createFixtureTransport({ mode: "record", store, fetch }),
+    });
+
+    const recorded = await recorder.get("/users/1", { params: { expand: "team" } });
+    expect(store.har?.log.entries).toHaveLength(1);
+    expect(store.har?.log.entries[0].request).toMatchObject({
+      method: "GET",
+      url: "https://api.example.com/users/1?expand=team",
+      queryString: [{ name: "expand", value: "team" }],
+    });
+
+    const offline = vi.fn();
+    const replayer = Wefy.create({
+      baseUrl,
+      transport: createFixtureTransport({ mode: "replay", store, fetch: offline }),
+    });
+
+    await expect(replayer.get("/users/1", { params: { expand: "team" } })).resolves.toEqual(recorded);
+    expect(offline).not.toHaveBeenCalled();
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it("flags missing fixtures while replaying", async () => {
+    const transport = createFixtureTransport({ mode: "replay", store: memoryStore() });
+    const client = Wefy.create({ baseUrl, transport });
+
+    const request = client.get("/unknown");
+    await expect(request).rejects.toBeInstanceOf(WefyFixtureMissingError);
+    await expect(request).rejects.toThrow("No recorded fixture for GET https://api.example.com/unknown");
+    expect(transport.missing).toEqual(["GET https://api.example.com/unknown"]);
+  });
+
+  it("matches on configured headers and body keys", async () => {
+    const transport = createFixtureTransport({
+      mode: "auto",
+      fetch: backend(),
+      match: { headers: ["X-Tenant"], body: ["query"] },
+    });
+    const client = Wefy.create({ baseUrl, transport });
+    const search = (tenant: string, body: object) =>
+      client.post("/search", body, { options: { headers: { "X-Tenant": tenant } } });
+
+    await search("a", { query: "x", requestId: 1 });
+    await search("a", { query: "x", requestId: 2 });
+    await search("b", { query: "x", requestId: 3 });
+    await search("a", { query: "y", requestId: 4 });
+
+    expect(transport.toHar().log.entries).toHaveLength(3);
+  });
+
+  it("replays identical requests in recording order", async () => {
+    let count = 0;
+    const transport = createFixtureTransport({
+      mode: "record",
+      fetch: async () => new Response(String(++count), { headers: { "Content-Type": "text/plain" } }),
+    });
+    const recorder = Wefy.create({ baseUrl, transport });
+    await recorder.get("/counter");
+    await recorder.get("/counter");
+
+    const replayer = Wefy.create({
+      baseUrl,
+      transport: createFixtureTransport({ mode: "replay", har: transport.toHar() }),
+    });
+
+    await expect(replayer.get("/counter")).resolves.toBe("1");
+    await expect(replayer.get("/counter")).resolves.toBe("2");
+    await expect(replayer.get("/counter")).resolves.toBe("2");
+  });
+
+  it("re-records from an empty log and redacts credentials", async () => {
+    const store = memoryStore();
+    const record = (version: string) =>
+      Wefy.create({
+        baseUrl,
+        options: { headers: { Authorization: "Bearer secret", "X-Api-Key": "key" } },
+        transport: createFixtureTransport({
+          mode: "record",
+          store,
+          redact: ["authorization", "x-api-key"],
+          fetch: async () => Response.json({ version }),
+        }),
+      }).get("/version");
+
+    await record("1");
+    await record("2");
+
+    const [entry, ...rest] = store.har!.log.entries;
+    expect(rest).toHaveLength(0);
+    expect(entry.response.content.text).toBe('{"version":"2"}');
+    const headers = Object.fromEntries(entry.request.headers.map(({ name, value }) => [name.toLowerCase(), value]));
+    expect(headers).toMatchObject({ authorization: "[REDACTED]", "x-api-key": "[REDACTED]" });
+
+    const replayer = Wefy.create({ baseUrl, transport: createFixtureTransport({ mode: "replay", store }) });
+    await expect(replayer.get("/version")).resolves.toEqual({ version: "2" });
+  });
+
+  it("round-trips binary bodies and statuses", async () => {
+    const bytes = new Uint8Array([0, 255, 1, 128]);
+    const transport = createFixtureTransport({
+      mode: "record",
+      fetch: async () =>
+        new Response(bytes, { status: 202, headers: { "Content-Type": "application/octet-stream" } }),
+    });
+    await Wefy.create({ baseUrl, transport }).raw.get("/blob");
+
+    const har: WefyHar = JSON.parse(JSON.stringify(transport.toHar()));
+    expect(har.log.entries[0].response.content).toMatchObject({ encoding: "base64", size: 4 });
+
+    const replayer = Wefy.create({
+      baseUrl,
+      transport: createFixtureTransport({ mode: "replay", har }),
+    });
+    const response = await replayer.raw.get("/blob");
+
+    expect(response.status).toBe(202);
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(bytes);
+  });
+});
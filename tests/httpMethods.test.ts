@@ -121,4 +121,63 @@ describe("HTTP Methods", () => {
       );
     });
   });
+  describe("HEAD, OPTIONS and send", () => {
+    const json = (data: unknown) =>
+      new Response(JSON.stringify(data), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+
+    it("resolves HEAD to status and headers without reading the body", async () => {
+      const response = new Response(null, {
+        status: 200,
+        headers: { "Content-Length": "42", ETag: '"v1"' },
+      });
+      const text = vi.spyOn(response, "text");
+      vi.mocked(fetch).mockResolvedValueOnce(response);
+
+      const client = Wefy.create(config);
+      const head = await client.head("/file");
+
+      expect(head.status).toBe(200);
+      expect(head.ok).toBe(true);
+      expect(head.headers.get("etag")).toBe('"v1"');
+      expect(text).not.toHaveBeenCalled();
+    });
+
+    it("parses OPTIONS responses", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(json({ success: true }));
+      const client = Wefy.create(config);
+      await expect(client.options("/test")).resolves.toEqual({ success: true });
+    });
+
+    it("sends custom verbs with a body", async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(json({ success: true }));
+      const client = Wefy.create(config);
+      const result = await client.send("QUERY", "/search", {
+        body: { q: "wefy" },
+        params: { limit: 5 },
+      });
+
+      const [url, init] = vi.mocked(fetch).mock.calls[0];
+      expect(result).toEqual({ success: true });
+      expect(url).toBe("https://api.example.com/search?limit=5");
+      expect(init?.method).toBe("QUERY");
+      expect(init?.body).toBe('{"q":"wefy"}');
+    });
+
+    it("exposes the new methods on raw clients", async () => {
+      const client = Wefy.create(config);
+
+      const head = await client.raw.head("/file");
+      const propfind = await client.raw.send("PROPFIND", "/dir", {
+        options: { headers: { Depth: "1" } },
+      });
+
+      const methods = vi.mocked(fetch).mock.calls.map(([, init]) => init?.method);
+      expect(methods).toEqual(["HEAD", "PROPFIND"]);
+      expect(head).toBeInstanceOf(Response);
+      expect(propfind).toBeInstanceOf(Response);
+    });
+  });
 });
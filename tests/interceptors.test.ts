@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from "vitest";
+import { Wefy, WefyError, WefyHttpError } from "../src/core";
+import { WefyInterceptorManager } from "../src/interceptor";
+
+describe("Interceptors | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  it("lets request interceptors rewrite the URL and init", async () => {
+    const fetch = vi.fn(async () => Response.json({ ok: true }));
+    const client = Wefy.create({ baseUrl, fetch });
+
+    client.interceptors.request.use(({ url, init }) => {
+      const headers = new Headers(init.headers);
+      headers.set("X-Trace", "t1");
+      return { url: url.replace("/v1/", "/v2/"), init: { ...init, headers, credentials: "include" } };
+    });
+    client.interceptors.request.use(async (request) => ({ ...request, url: `${request.url}?signed=1` }));
+
+    await client.get("/v1/users");
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://api.example.com/v2/users?signed=1");
+    expect(new Headers(init.headers).get("x-trace")).toBe("t1");
+    expect(init.credentials).toBe("include");
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("transforms responses before they are parsed", async () => {
+    const fetch = vi.fn(async () => Response.json({ data: { id: 1 } }));
+    const client = Wefy.create({ baseUrl, fetch });
+
+    client.interceptors.response.use(async (response) => Response.json((await response.json()).data));
+
+    await expect(client.get("/users/1")).resolves.toEqual({ id: 1 });
+  });
+
+  it("recovers from errors in a rejected interceptor", async () => {
+    const fetch = vi.fn(async () => new Response("gone", { status: 503 }));
+    const client = Wefy.create({ baseUrl, fetch });
+    const onRejected = vi.fn(async (error: unknown) => {
+      if (error instanceof WefyHttpError && error.status === 503) {
+        return Response.json({ fallback: true });
+      }
+      throw error;
+    });
+
+    client.interceptors.response.use(null, onRejected);
+
+    await expect(client.get("/status")).resolves.toEqual({ fallback: true });
+    expect(onRejected.mock.calls[0][0]).toBeInstanceOf(WefyHttpError);
+  });
+
+  it("passes errors on when a rejected interceptor rethrows", async () => {
+    const fetch = vi.fn(async () => {
+      throw new TypeError("offline");
+    });
+    const client = Wefy.create({ baseUrl, fetch });
+    const seen = vi.fn((error: unknown) => {
+      throw error;
+    });
+
+    client.interceptors.response.use(null, seen);
+
+    const error = await client.get("/").catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(WefyError);
+    expect((error as WefyError).message).toContain("offline");
+    expect(seen).toHaveBeenCalledOnce();
+  });
+
+  it("stops running ejected interceptors", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const client = Wefy.create({ baseUrl, fetch });
+    const interceptor = vi.fn((request) => request);
+
+    const id = client.interceptors.request.use(interceptor);
+    await client.get("/a");
+    expect(client.interceptors.request.eject(id)).toBe(true);
+    await client.get("/b");
+
+    expect(interceptor).toHaveBeenCalledOnce();
+    expect(client.interceptors.request.size).toBe(0);
+  });
+
+  it("rejects the request when a request interceptor throws", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const client = Wefy.create({ baseUrl, fetch });
+
+    client.interceptors.request.use(() => {
+      throw new Error("not signed in");
+    });
+
+    await expect(client.get("/")).rejects.toThrow("not signed in");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("runs inherited interceptors before a child's own", async () => {
+    const parent = new WefyInterceptorManager<string>();
+    const child = new WefyInterceptorManager<string>(parent);
+
+    child.use((value) => `${value}-child`);
+    const id = parent.use((value) => `${value}-parent`);
+
+    await expect(child.run(Promise.resolve("v"))).resolves.toBe("v-parent-child");
+    expect(child.eject(id)).toBe(false);
+    await expect(parent.run(Promise.resolve("v"))).resolves.toBe("v-parent");
+
+    parent.eject(id);
+    await expect(child.run(Promise.resolve("v"))).resolves.toBe("v-child");
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import { WefyHttpError, WefyTimeoutError } from "../src/core";
+import { createMockWefy, WefyMockError } from "../src/mock";
+
+describe("Mock | Wefy", () => {
+  it("answers matching routes with canned responses", async () => {
+    const { api, mock } = createMockWefy({ baseUrl: "https://api.example.com" });
+    mock.onGet("/users/:id").reply(200, { id: 1, name: "Ada" });
+
+    await expect(api.get("/users/1")).resolves.toEqual({ id: 1, name: "Ada" });
+    expect(mock.history[0]).toMatchObject({
+      method: "GET",
+      url: "https://api.example.com/users/1",
+      path: "/users/1",
+      params: { id: "1" },
+    });
+  });
+
+  it("answers with dynamic responses", async () => {
+    const { api, mock } = createMockWefy();
+    mock.onPost("/users").reply(({ body }) => ({
+      status: 201,
+      body: { id: 7, ...(body as object) },
+      headers: { Location: "/users/7" },
+    }));
+
+    const response = await api.raw.post("/users", { name: "Grace" });
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get("location")).toBe("/users/7");
+    await expect(response.json()).resolves.toEqual({ id: 7, name: "Grace" });
+  });
+
+  it("matches on query, headers and body", async () => {
+    const { api, mock } = createMockWefy();
+    mock
+      .onGet("/items", { query: { page: 2, tags: ["a", "b"] } })
+      .reply(200, "second page");
+    mock.onGet("/items").reply(200, "first page");
+    mock
+      .onPost("/login", {
+        headers: { "X-Client": "web" },
+        body: (body) => (body as { user?: string }).user === "ada",
+      })
+      .reply(204);
+
+    await expect(api.get("/items", { params: { page: 2, tags: ["a", "b"] } })).resolves.toBe("second page");
+    await expect(api.get("/items", { params: { page: 3 } })).resolves.toBe("first page");
+    await expect(
+      api.raw.post("/login", { user: "ada" }, { options: { headers: { "x-client": "web" } } })
+    ).resolves.toMatchObject({ status: 204 });
+    await expect(api.post("/login", { user: "bob" })).rejects.toBeInstanceOf(WefyHttpError);
+  });
+
+  it("supports wildcard and regular expression paths", async () => {
+    const { api, mock } = createMockWefy();
+    mock.onAny(/\/v\d+\/health$/).reply(200, "ok");
+    mock.onGet("/files/*").reply(200, "file");
+
+    await expect(api.get("/v2/health")).resolves.toBe("ok");
+    await expect(api.get("/files/a/b.txt")).resolves.toBe("file");
+  });
+
+  it("limits how often a route answers", async () => {
+    const { api, mock } = createMockWefy();
+    const first = mock.onGet("/token").reply(200, "one").once();
+    mock.onGet("/token").reply(200, "two");
+
+    expect(mock.pending()).toEqual([first]);
+    await expect(api.get("/token")).resolves.toBe("one");
+    await expect(api.get("/token")).resolves.toBe("two");
+    expect(first.calls).toBe(1);
+    expect(mock.pending()).toEqual([]);
+  });
+
+  it("simulates network errors and failures", async () => {
+    const { api, mock } = createMockWefy();
+    mock.onGet("/down").networkError();
+    mock.onGet("/boom").fail(new Error("boom"));
+
+    await expect(api.get("/down")).rejects.toThrow("Request failed: Failed to fetch");
+    await expect(api.get("/boom")).rejects.toThrow("boom");
+  });
+
+  it("simulates delays and unresponsive servers", async () => {
+    vi.useFakeTimers();
+    try {
+      const { api, mock } = createMockWefy({ timeout: 100 });
+      mock.onGet("/slow").delay(50).reply(200, "late");
+      mock.onGet("/hang").timeout();
+
+      const slow = api.get("/slow");
+      await vi.advanceTimersByTimeAsync(50);
+      await expect(slow).resolves.toBe("late");
+
+      const hanging = expect(api.get("/hang")).rejects.toBeInstanceOf(WefyTimeoutError);
+      await vi.advanceTimersByTimeAsync(100);
+      await hanging;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("answers unmatched requests with 404 unless strict", async () => {
+    const lenient = createMockWefy();
+    await expect(lenient.api.get("/nothing")).rejects.toMatchObject({ status: 404 });
+
+    const strict = createMockWefy({ strict: true });
+    const request = strict.api.get("/nothing");
+    await expect(request).rejects.toBeInstanceOf(WefyMockError);
+    await expect(request).rejects.toThrow("No mock route matches GET http://localhost/nothing");
+  });
+
+  it("filters the call history", async () => {
+    const { api, mock } = createMockWefy();
+    mock.onAny("*").reply(200, {});
+
+    await api.get("/users/1");
+    await api.delete("/users/1");
+    await api.get("/posts");
+
+    expect(mock.calls("GET")).toHaveLength(2);
+    expect(mock.calls("*", "/users/:id").map(({ method }) => method)).toEqual(["GET", "DELETE"]);
+
+    mock.reset();
+    expect(mock.calls()).toEqual([]);
+    await expect(api.get("/users/1")).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from "vitest";
+import { Wefy, WefyHttpError } from "../src/core";
+import { cursorPagination, offsetPagination, pagePagination, parseLinkHeader } from "../src/paginate";
+
+describe("Pagination | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  interface User {
+    id: number;
+  }
+
+  const users = (...ids: number[]): User[] => ids.map((id) => ({ id }));
+
+  /**
+   * Fetch answering each request with the next of `responses`
+   */
+  const pagedFetch = (...responses: (() => Response)[]) => {
+    const fetch = vi.fn(async (_url: string) => (responses.shift() ?? (() => Response.json([])))());
+    return { fetch, urls: () => fetch.mock.calls.map(([url]) => url) };
+  };
+
+  it("follows Link headers and yields the items of every page", async () => {
+    const { fetch, urls } = pagedFetch(
+      () => Response.json(users(1, 2), { headers: { Link: '<https://api.example.com/users?page=2>; rel="next", <https://api.example.com/users?page=3>; rel="last"' } }),
+      () => Response.json(users(3), { headers: { Link: '</users?page=3>; rel="prev next"' } }),
+      () => Response.json(users(4))
+    );
+    const api = Wefy.create({ baseUrl, fetch });
+
+    const ids: number[] = [];
+    for await (const user of api.paginate<User>("/users", { params: { sort: "id" } })) {
+      ids.push(user.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3, 4]);
+    expect(urls()).toEqual(["https://api.example.com/users?sort=id", "https://api.example.com/users?page=2", "https://api.example.com/users?page=3"]);
+  });
+
+  it("requests absolute Link targets exactly as given", async () => {
+    const next = "https://api.example.com/users?cursor=a%2Cb&filter=&flag&sort=id";
+    const { fetch, urls } = pagedFetch(
+      () => Response.json(users(1), { headers: { Link: `<${next}>; rel="next"` } }),
+      () => Response.json(users(2))
+    );
+    const api = Wefy.create({ baseUrl, fetch });
+
+    await api.paginate<User>("/users", { params: { sort: "id" } }).all();
+
+    expect(urls()[1]).toBe(next);
+  });
+
+  it("reads cursors and items from the body with typed extractors", async () => {
+    interface UserPage {
+      users: User[];
+      next_cursor: string | null;
+    }
+    const { fetch, urls } = pagedFetch(
+      () => Response.json({ users: users(1, 2), next_cursor: "abc" }),
+      () => Response.json({ users: users(3), next_cursor: null })
+    );
+    const api = Wefy.create({ baseUrl, fetch });
+
+    const paginator = api.paginate("/users", { params: { active: true } }, cursorPagination({
+      cursor: (page: UserPage) => page.next_cursor,
+      items: (page: UserPage) => page.users,
+      param: "after",
+    }));
+    const pages = [];
+    for await (const page of paginator.pages()) {
+      pages.push(page);
+    }
+
+    expect(pages.map((page) => [page.index, page.items.map((user) => user.id)])).toEqual([[0, [1, 2]], [1, [3]]]);
+    expect(pages[1].data.next_cursor).toBeNull();
+    expect(urls()).toEqual(["https://api.example.com/users?active=true", "https://api.example.com/users?active=true&after=abc"]);
+  });
+
+  it("pages by offset and limit until a page comes back short", async () => {
+    const { fetch, urls } = pagedFetch(
+      () => Response.json({ results: users(1, 2) }),
+      () => Response.json({ results: users(3, 4) }),
+      () => Response.json({ results: users(5) })
+    );
+    const api = Wefy.create({ baseUrl, fetch });
+
+    const items = await api.paginate<User>("/users", {}, offsetPagination({ limit: 2 })).all();
+
+    expect(items).toEqual(users(1, 2, 3, 4, 5));
+    expect(urls().map((url) => new URL(url).search)).toEqual(["?offset=0&limit=2", "?offset=2&limit=2", "?offset=4&limit=2"]);
+  });
+
+  it("pages by page number until a page is empty or short", async () => {
+    const numbered = pagedFetch(() => Response.json(users(1)), () => Response.json(users(2)), () => Response.json([]));
+    const sized = pagedFetch(() => Response.json(users(1, 2)), () => Response.json(users(3)));
+
+    const first = await Wefy.create({ baseUrl, fetch: numbered.fetch }).paginate<User>("/users", {}, pagePagination()).all();
+    const second = await Wefy.create({ baseUrl, fetch: sized.fetch }).paginate<User>("/users", {}, pagePagination({ start: 0, size: 2, sizeParam: "size" })).all();
+
+    expect(first).toEqual(users(1, 2));
+    expect(numbered.urls().map((url) => new URL(url).search)).toEqual(["?page=1", "?page=2", "?page=3"]);
+    expect(second).toEqual(users(1, 2, 3));
+    expect(sized.urls().map((url) => new URL(url).search)).toEqual(["?page=0&size=2", "?page=1&size=2"]);
+  });
+
+  it("stops after maxPages and when a strategy repeats a request", async () => {
+    const fetch = vi.fn(async () => Response.json({ items: users(1), cursor: "same" }));
+    const api = Wefy.create({ baseUrl, fetch });
+
+    const limited = await api.paginate<User>("/users", { maxPages: 3 }, pagePagination()).all();
+    fetch.mockClear();
+    const looping = await api.paginate<User>("/users", {}, cursorPagination({ cursor: (page: { cursor: string }) => page.cursor })).all();
+
+    expect(limited).toHaveLength(3);
+    expect(looping).toHaveLength(2);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("fetches lazily and stops when the signal aborts", async () => {
+    const fetch = vi.fn(async () => Response.json(users(1, 2)));
+    const api = Wefy.create({ baseUrl, fetch });
+    const controller = new AbortController();
+
+    for await (const user of api.paginate<User>("/users", {}, pagePagination())) {
+      expect(user.id).toBe(1);
+      break;
+    }
+    expect(fetch).toHaveBeenCalledOnce();
+
+    const paginator = api.paginate<User>("/users", { options: { signal: controller.signal } }, pagePagination());
+    const ids: number[] = [];
+    const iterate = async () => {
+      for await (const user of paginator) {
+        ids.push(user.id);
+        if (ids.length === 2) controller.abort();
+      }
+    };
+
+    await expect(iterate()).rejects.toThrow();
+    expect(ids).toEqual([1, 2]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects with the error of a failed page", async () => {
+    const { fetch } = pagedFetch(
+      () => Response.json(users(1), { headers: { Link: '<https://api.example.com/users?page=2>; rel="next"' } }),
+      () => new Response("gone", { status: 410 })
+    );
+    const api = Wefy.create({ baseUrl, fetch });
+
+    await expect(api.paginate<User>("/users").all()).rejects.toBeInstanceOf(WefyHttpError);
+  });
+
+  it("is available to scopes and fills path parameters of the first page", async () => {
+    const { fetch, urls } = pagedFetch(
+      () => Response.json(users(1), { headers: { Link: '<https://api.example.com/orgs/acme/users?page=2>; rel="next"' } }),
+      () => Response.json(users(2))
+    );
+    const api = Wefy.create({ baseUrl, fetch }).scope("orgs", (ctx) => ({
+      members: (org: string) => ctx.paginate<User>("/orgs/:org/users", { pathParams: { org } }),
+    }));
+
+    await expect(api.orgs.members("acme").all()).resolves.toEqual(users(1, 2));
+    expect(urls()).toEqual(["https://api.example.com/orgs/acme/users", "https://api.example.com/orgs/acme/users?page=2"]);
+  });
+
+  it("parses Link headers", () => {
+    expect(parseLinkHeader('<https://a.example/2>; rel="next"; title="Page, 2", <https://a.example/1>;rel=prev')).toEqual([
+      { url: "https://a.example/2", params: { rel: "next", title: "Page, 2" } },
+      { url: "https://a.example/1", params: { rel: "prev" } },
+    ]);
+    expect(parseLinkHeader(null)).toEqual([]);
+  });
+});
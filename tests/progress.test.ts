@@ -0,0 +1,100 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { Wefy, WefyProgressEvent } from "../src/core";
+
+describe("Progress | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  const chunkedResponse = (chunks: string[], headers: Record<string, string> = {}) => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { "Content-Type": "text/plain", ...headers } });
+  };
+
+  it("reports download progress against Content-Length", async () => {
+    const events: WefyProgressEvent[] = [];
+    const fetch = vi.fn(async () => chunkedResponse(["abc", "defg", "hij"], { "Content-Length": "10" }));
+    const client = Wefy.create({ baseUrl, fetch });
+
+    const data = await client.get("/file", { onDownloadProgress: (event) => events.push(event) });
+
+    expect(data).toBe("abcdefghij");
+    expect(events.map(({ loaded }) => loaded)).toEqual([3, 7, 10, 10]);
+    expect(events.at(-1)).toMatchObject({ loaded: 10, total: 10, progress: 1, done: true });
+    expect(events.every(({ rate }) => rate >= 0)).toBe(true);
+  });
+
+  it("leaves the total unknown without a usable Content-Length", async () => {
+    const events: WefyProgressEvent[] = [];
+    const fetch = vi.fn(async () =>
+      chunkedResponse(["ab", "cd"], { "Content-Length": "3", "Content-Encoding": "gzip" })
+    );
+    const client = Wefy.create({ baseUrl, fetch });
+
+    const response = await client.raw.get("/file", { onDownloadProgress: (event) => events.push(event) });
+    await response.text();
+
+    expect(events.at(-1)).toMatchObject({ loaded: 4, total: undefined, progress: undefined, done: true });
+  });
+
+  it("streams request bodies and reports upload progress", async () => {
+    const events: WefyProgressEvent[] = [];
+    const payload = "x".repeat(150 * 1024);
+    let received = "";
+    const fetch = vi.fn(async (_: string, init: RequestInit) => {
+      received = await new Response(init.body).text();
+      return new Response(null, { status: 204 });
+    });
+    const client = Wefy.create({ baseUrl, fetch });
+
+    await client.post("/upload", payload, {
+      options: { headers: { "Content-Type": "text/plain" } },
+      onUploadProgress: (event) => events.push(event),
+    });
+
+    expect(received).toBe(payload);
+    expect(fetch.mock.calls[0][1]).toMatchObject({ duplex: "half" });
+    expect(new Headers(fetch.mock.calls[0][1].headers).get("content-length")).toBe("153600");
+    expect(events.map(({ loaded }) => loaded)).toEqual([65536, 131072, 153600, 153600]);
+    expect(events.at(-1)).toMatchObject({ total: 153600, progress: 1, done: true });
+  });
+
+  it("streams Blobs with their length and type", async () => {
+    const events: WefyProgressEvent[] = [];
+    let headers = new Headers();
+    const fetch = vi.fn(async (_: string, init: RequestInit) => {
+      headers = new Headers(init.headers);
+      await new Response(init.body).arrayBuffer();
+      return new Response(null, { status: 204 });
+    });
+    const client = Wefy.create({ baseUrl, fetch });
+
+    await client.put("/object", new Blob(["x".repeat(1000)], { type: "application/octet-stream" }), {
+      onUploadProgress: (event) => events.push(event),
+    });
+
+    expect(headers.get("content-length")).toBe("1000");
+    expect(headers.get("content-type")).toBe("application/octet-stream");
+    expect(events.at(-1)).toMatchObject({ loaded: 1000, total: 1000, done: true });
+  });
+
+  it("keeps FormData boundaries when tracking uploads", async () => {
+    let received: FormData | undefined;
+    const fetch = vi.fn(async (_: string, init: RequestInit) => {
+      received = await new Response(init.body, { headers: init.headers }).formData();
+      return new Response(null, { status: 204 });
+    });
+    const client = Wefy.create({ baseUrl, fetch });
+    const form = new FormData();
+    form.append("name", "report");
+
+    await client.post("/upload", form, { onUploadProgress: () => {} });
+
+    expect(received?.get("name")).toBe("report");
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from "vitest";
+import { Wefy, WefyTimeoutError } from "../src/core";
+import { WefyRequestQueue } from "../src/queue";
+
+describe("Queue | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  /**
+   * Fetch whose responses are held until `respond` is called
+   */
+  const heldFetch = () => {
+    const held: (() => void)[] = [];
+    const fetch = vi.fn(
+      (url: string) =>
+        new Promise<Response>((resolve) => held.push(() => resolve(Response.json({ url }))))
+    );
+    const respond = async () => {
+      held.shift()?.();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    };
+    return { fetch, respond, sent: () => fetch.mock.calls.map(([url]) => url) };
+  };
+
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it("limits the requests running at once", async () => {
+    const { fetch, respond } = heldFetch();
+    const api = Wefy.create({ baseUrl, fetch, maxConcurrent: 2 });
+
+    const requests = [1, 2, 3, 4].map((id) => api.get(`/items/${id}`));
+    await settle();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(api.queue.pending).toBe(2);
+    expect(api.queue.size).toBe(2);
+
+    await respond();
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    await respond();
+    await respond();
+    await respond();
+    await Promise.all(requests);
+    expect(api.queue.pending).toBe(0);
+    expect(api.queue.size).toBe(0);
+  });
+
+  it("limits requests per origin", async () => {
+    const { fetch, respond, sent } = heldFetch();
+    const api = Wefy.create({ baseUrl, fetch, maxConcurrent: { perOrigin: 1 } });
+
+    const requests = [
+      api.get("/a"),
+      api.get("/b"),
+      api.get("https://cdn.example.com/c"),
+    ];
+    await settle();
+
+    expect(sent()).toEqual(["https://api.example.com/a", "https://cdn.example.com/c"]);
+
+    await respond();
+    expect(sent()).toContain("https://api.example.com/b");
+
+    await respond();
+    await respond();
+    await Promise.all(requests);
+  });
+
+  it("sends higher priorities first and equal priorities in order", async () => {
+    const { fetch, respond, sent } = heldFetch();
+    const api = Wefy.create({ baseUrl, fetch, maxConcurrent: 1 });
+
+    const requests = [
+      api.get("/first"),
+      api.get("/low"),
+      api.get("/high", { priority: 10 }),
+      api.get("/low-2"),
+      api.get("/high-2", { priority: 10 }),
+    ];
+    await settle();
+    for (let index = 0; index < requests.length; index++) {
+      await respond();
+    }
+    await Promise.all(requests);
+
+    expect(sent().map((url) => new URL(url).pathname)).toEqual(["/first", "/high", "/high-2", "/low", "/low-2"]);
+  });
+
+  it("rejects requests waiting longer than the queue timeout", async () => {
+    const { fetch, respond } = heldFetch();
+    const api = Wefy.create({ baseUrl, fetch, maxConcurrent: 1 });
+
+    const first = api.get("/slow");
+    const error = await api.get("/queued", { queueTimeout: 20 }).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(WefyTimeoutError);
+    expect((error as WefyTimeoutError).phase).toBe("queue");
+    expect(api.queue.size).toBe(0);
+    expect(fetch).toHaveBeenCalledOnce();
+
+    await respond();
+    await first;
+  });
+
+  it("removes aborted requests from the queue", async () => {
+    const { fetch, respond, sent } = heldFetch();
+    const api = Wefy.create({ baseUrl, fetch, maxConcurrent: 1 });
+    const controller = new AbortController();
+
+    const first = api.get("/first");
+    const aborted = api.get("/aborted", { options: { signal: controller.signal } });
+    const last = api.get("/last");
+    await settle();
+
+    controller.abort();
+    await expect(aborted).rejects.toThrow();
+    expect(api.queue.size).toBe(1);
+
+    await respond();
+    await respond();
+    await Promise.all([first, last]);
+    expect(sent().map((url) => new URL(url).pathname)).toEqual(["/first", "/last"]);
+  });
+
+  it("shares the queue with decorated clients unless a scope sets its own limits", async () => {
+    const { fetch, respond } = heldFetch();
+    const api = Wefy.create({ baseUrl, fetch, maxConcurrent: 1 })
+      .decorate("child", {})
+      .scope("bulk", (ctx) => ({ sync: (id: number) => ctx.post(`/sync/${id}`) }), { maxConcurrent: 2 });
+
+    expect(api.child.queue).toBe(api.queue);
+    expect(api.getScopeInfo("bulk")).toBeDefined();
+
+    const requests = [api.get("/a"), api.child.get("/b"), api.bulk.sync(1), api.bulk.sync(2)];
+    await settle();
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(api.queue.size).toBe(1);
+
+    for (let index = 0; index < requests.length; index++) {
+      await respond();
+    }
+    await Promise.all(requests);
+  });
+
+  it("can be used on its own", async () => {
+    const queue = new WefyRequestQueue({ max: 1 });
+    const release = await queue.acquire("https://a.example");
+    const next = queue.acquire("https://b.example");
+
+    expect(queue.size).toBe(1);
+    release();
+    release();
+    await next;
+    expect(queue.pending).toBe(1);
+  });
+});
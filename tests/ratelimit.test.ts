@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from "vitest";
+import { Wefy } from "../src/core";
+import { parseRateLimitHeaders, WefyRateLimitEvent, WefyRateLimiter } from "../src/ratelimit";
+
+describe("Rate limiting | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  it("delays requests over the limit instead of failing them", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const events: WefyRateLimitEvent[] = [];
+    const api = Wefy.create({ baseUrl, fetch, rateLimit: { limit: 2, interval: 100, onEvent: (event) => events.push(event) } });
+
+    const startedAt = Date.now();
+    await Promise.all([api.get("/a"), api.get("/b"), api.get("/c")]);
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+    expect(events).toEqual([{ type: "delay", url: "https://api.example.com/c", wait: expect.any(Number) }]);
+  });
+
+  it("pauses after Retry-After and lets the retry wait for it", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("slow down", { status: 429, headers: { "Retry-After": "0.05" } }))
+      .mockResolvedValue(Response.json({ ok: true }));
+    const limiter = new WefyRateLimiter();
+    const pauses = vi.fn();
+    limiter.on((event) => event.type === "pause" && pauses(event));
+    const api = Wefy.create({ baseUrl, fetch, rateLimit: limiter });
+
+    await expect(api.get("/a")).rejects.toMatchObject({ status: 429 });
+    const startedAt = Date.now();
+    await api.get("/b");
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(30);
+    expect(pauses).toHaveBeenCalledWith({ type: "pause", origin: baseUrl, wait: 50, reason: "retry-after" });
+  });
+
+  it("pauses only the origin that asked for it", async () => {
+    const fetch = vi.fn(async (url: string) =>
+      url.startsWith(baseUrl) ? new Response("slow down", { status: 429, headers: { "Retry-After": "10" } }) : Response.json({})
+    );
+    const api = Wefy.create({ baseUrl, fetch, rateLimit: {} });
+    const controller = new AbortController();
+
+    await expect(api.get("/a")).rejects.toMatchObject({ status: 429 });
+    const paused = api.get("/b", { options: { signal: controller.signal } });
+    await api.get("https://cdn.example.com/file");
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    controller.abort();
+    await expect(paused).rejects.toThrow();
+  });
+
+  it("waits for a token without holding a queue slot", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const api = Wefy.create({ baseUrl, fetch, maxConcurrent: 1, rateLimit: { limit: 1, interval: 10_000 } });
+    const controller = new AbortController();
+
+    await api.get("/a");
+    const waiting = api.get("/b", { options: { signal: controller.signal } });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(api.queue.pending).toBe(0);
+    expect(api.queue.size).toBe(0);
+    controller.abort();
+    await expect(waiting).rejects.toThrow();
+  });
+
+  it("pauses until the reset once the server reports no remaining requests", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(Response.json({}, { headers: { "RateLimit-Remaining": "0", "RateLimit-Reset": "0.05" } }))
+      .mockResolvedValue(Response.json({}));
+    const events: WefyRateLimitEvent[] = [];
+    const api = Wefy.create({ baseUrl, fetch, rateLimit: { onEvent: (event) => events.push(event) } });
+
+    await api.get("/a");
+    await api.get("/b");
+
+    expect(events.map((event) => event.type)).toEqual(["update", "pause", "delay"]);
+  });
+
+  it("ignores headers when not adaptive", async () => {
+    const fetch = vi.fn(async () => Response.json({}, { headers: { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": "60" } }));
+    const onEvent = vi.fn();
+    const api = Wefy.create({ baseUrl, fetch, rateLimit: { adaptive: false, onEvent } });
+
+    await api.get("/a");
+    await api.get("/b");
+
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+
+  it("shares the limiter with decorated clients unless they set their own", () => {
+    const api = Wefy.create({ baseUrl, rateLimit: { limit: 5 } })
+      .decorate("child", {})
+      .decorate("isolated", { rateLimit: { limit: 1 } });
+
+    expect(api.child.rateLimiter).toBe(api.rateLimiter);
+    expect(api.isolated.rateLimiter).not.toBe(api.rateLimiter);
+    expect(Wefy.create(baseUrl).rateLimiter).toBeNull();
+  });
+
+  it("stops waiting when the request is aborted", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const api = Wefy.create({ baseUrl, fetch, rateLimit: { limit: 1, interval: 10_000 } });
+    const controller = new AbortController();
+
+    await api.get("/a");
+    const waiting = api.get("/b", { options: { signal: controller.signal } });
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow();
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it("parses rate limit header variants", () => {
+    const now = Date.UTC(2024, 0, 1);
+    expect(parseRateLimitHeaders(new Headers({ "RateLimit-Limit": "100", "RateLimit-Remaining": "5", "RateLimit-Reset": "30" }), now)).toEqual({
+      limit: 100,
+      remaining: 5,
+      reset: 30_000,
+    });
+    expect(parseRateLimitHeaders(new Headers({ "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": String(now / 1000 + 10) }), now)).toEqual({
+      limit: undefined,
+      remaining: 0,
+      reset: 10_000,
+    });
+    expect(parseRateLimitHeaders(new Headers({ RateLimit: '"default";r=3;t=2' }), now)).toEqual({ limit: undefined, remaining: 3, reset: 2000 });
+    expect(parseRateLimitHeaders(new Headers({ RateLimit: "limit=10, remaining=4, reset=1" }), now)).toEqual({ limit: 10, remaining: 4, reset: 1000 });
+    expect(parseRateLimitHeaders(new Headers(), now)).toBeUndefined();
+  });
+});
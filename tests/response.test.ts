@@ -0,0 +1,181 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { Wefy, WefyParseError, WefyResponse, WefyStreamResponse, WefyTimeoutError } from "../src/core";
+
+describe("Streaming | WefyResponse", () => {
+  const streamed = (chunks: string[], headers: Record<string, string> = {}) => {
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    return {
+      response: new Response(body, { headers }),
+      isCancelled: () => cancelled,
+    };
+  };
+
+  const collect = async <T>(iterator: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const item of iterator) items.push(item);
+    return items;
+  };
+
+  it("iterates over body chunks", async () => {
+    const { response } = streamed(["ab", "cd"]);
+    const wefyResponse = new WefyResponse(response, { parse: false });
+    const decoder = new TextDecoder();
+
+    const chunks = await collect(wefyResponse.stream());
+
+    expect(chunks.map((chunk) => decoder.decode(chunk))).toEqual(["ab", "cd"]);
+  });
+
+  it("splits lines across chunk boundaries", async () => {
+    const { response } = streamed(["one\r\ntw", "o\n\nthr", "ee"]);
+
+    const lines = await collect(new WefyResponse(response, { parse: false }).lines());
+
+    expect(lines).toEqual(["one", "two", "", "three"]);
+  });
+
+  it("parses NDJSON records", async () => {
+    const { response } = streamed(['{"id":1}\n{"id"', ':2}\n\n{"id":3}\n']);
+
+    const records = await collect(new WefyResponse(response, { parse: false }).ndjson<{ id: number }>());
+
+    expect(records).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+  });
+
+  it("rejects malformed NDJSON lines", async () => {
+    const { response } = streamed(['{"id":1}\nnope\n']);
+    const records = new WefyResponse(response, { parse: false }).ndjson();
+
+    await expect(records.next()).resolves.toEqual({ value: { id: 1 }, done: false });
+    await expect(records.next()).rejects.toBeInstanceOf(WefyParseError);
+  });
+
+  it("cancels the body when iteration stops early", async () => {
+    const { response, isCancelled } = streamed(["a\n", "b\n", "c\n"]);
+
+    for await (const line of new WefyResponse(response, { parse: false }).lines()) {
+      if (line === "a") break;
+    }
+
+    expect(isCancelled()).toBe(true);
+  });
+
+  it("does not read the body up front when parsing is disabled", async () => {
+    const { response } = streamed(['{"a":1}'], { "Content-Type": "application/json" });
+
+    const wefyResponse = new WefyResponse(response, { parse: false });
+
+    await expect(wefyResponse).resolves.toBeUndefined();
+    expect(response.bodyUsed).toBe(false);
+    await expect(wefyResponse.json()).resolves.toEqual({ a: 1 });
+  });
+
+  it("keeps the body readable after eager parsing", async () => {
+    const { response } = streamed(['{"a":1}'], { "Content-Type": "application/json" });
+    const wefyResponse = new WefyResponse(response);
+
+    await expect(wefyResponse).resolves.toEqual({ a: 1 });
+    await expect(collect(wefyResponse.lines())).resolves.toEqual(['{"a":1}']);
+  });
+
+  it("applies the read timeout to every chunk", async () => {
+    const body = new ReadableStream<Uint8Array>({ pull: () => new Promise(() => {}) });
+    const wefyResponse = new WefyResponse(new Response(body), { parse: false, readTimeout: 10 });
+
+    await expect(collect(wefyResponse.stream())).rejects.toBeInstanceOf(WefyTimeoutError);
+  });
+
+  it("cancels the body when a read times out", async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull: () => new Promise(() => {}),
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const response = new Response(body, { headers: { "Content-Type": "application/json" } });
+
+    await expect(new WefyResponse(response, { readTimeout: 10 })).rejects.toBeInstanceOf(WefyTimeoutError);
+    expect(cancelled).toBe(true);
+  });
+
+  it("reads error bodies under the read timeout", async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull: () => new Promise(() => {}),
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const api = Wefy.create({
+      baseUrl: "https://api.example.com", readTimeout: 10,
+      fetch: async () => new Response(body, { status: 500, headers: { "Content-Type": "application/json" } }),
+    });
+
+    await expect(api.get("/broken")).rejects.toMatchObject({ status: 500, error: undefined });
+    await vi.waitFor(() => expect(cancelled).toBe(true));
+  });
+
+  it("resolves requests with parse: false to a stream under the client's read timeout", async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"id":1}\n'));
+      },
+      pull: () => new Promise(() => {}),
+    });
+    const api = Wefy.create({
+      baseUrl: "https://api.example.com", readTimeout: 10,
+      fetch: async () => new Response(body, { headers: { "Content-Type": "application/x-ndjson" } }),
+    });
+
+    const exported = await api.get("/export", { parse: false });
+    expect(exported).toBeInstanceOf(WefyStreamResponse);
+    expect(exported.status).toBe(200);
+
+    const records: { id: number }[] = [];
+    await expect((async () => {
+      for await (const record of exported.ndjson<{ id: number }>()) records.push(record);
+    })()).rejects.toBeInstanceOf(WefyTimeoutError);
+    expect(records).toEqual([{ id: 1 }]);
+  });
+
+  it("cancels a streamed body when the request signal aborts", async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"id":1}\n'));
+      },
+      pull: () => new Promise(() => {}),
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const api = Wefy.create({
+      baseUrl: "https://api.example.com",
+      fetch: async () => new Response(body, { headers: { "Content-Type": "application/x-ndjson" } }),
+    });
+    const controller = new AbortController();
+
+    const exported = await api.get("/export", { parse: false, options: { signal: controller.signal } });
+    const records: { id: number }[] = [];
+    await expect((async () => {
+      for await (const record of exported.ndjson<{ id: number }>()) {
+        records.push(record);
+        setTimeout(() => controller.abort(), 10);
+      }
+    })()).rejects.toThrow();
+    expect(records).toEqual([{ id: 1 }]);
+    expect(cancelled).toBe(true);
+  });
+});
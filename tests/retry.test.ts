@@ -0,0 +1,212 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { Wefy, WefyConfig, WefyHttpError, WefyTimeoutError } from "../src/core";
+import {
+  backoffDelay,
+  defaultRetryOptions,
+  parseRetryAfter,
+  resolveRetryOptions,
+} from "../src/core/retry";
+
+describe("Retry | Wefy", () => {
+  const config: WefyConfig = {
+    baseUrl: "https://api.example.com",
+    retry: { attempts: 3, delay: 1, jitter: false },
+  };
+
+  const ok = () =>
+    new Response(JSON.stringify({ ok: true }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const status = (code: number, headers: Record<string, string> = {}) =>
+    new Response(null, { status: code, headers });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = vi.fn().mockImplementation(async () => ok());
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("retries retryable statuses until success", async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(status(503))
+      .mockResolvedValueOnce(status(502));
+    const client = Wefy.create(config);
+
+    await expect(client.get("/test")).resolves.toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("exposes the attempt count on the final error", async () => {
+    vi.mocked(fetch).mockImplementation(async () => status(500));
+    const client = Wefy.create(config);
+
+    const error = await client.get("/test").catch((e) => e);
+
+    expect(error).toBeInstanceOf(WefyHttpError);
+    expect(error.attempts).toBe(3);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry statuses outside the list", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(status(404));
+    const client = Wefy.create(config);
+
+    const error = await client.get("/test").catch((e) => e);
+    expect(error.status).toBe(404);
+    expect(error.attempts).toBe(1);
+  });
+
+  it("retries network errors and timeouts", async () => {
+    vi.mocked(fetch)
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockImplementationOnce(
+        (_: string, init: RequestInit) =>
+          new Promise((_, reject) =>
+            init.signal?.addEventListener("abort", () =>
+              reject(new DOMException("aborted", "AbortError"))
+            )
+          )
+      );
+    const client = Wefy.create({ ...config, timeout: 10 });
+
+    await expect(client.get("/test")).resolves.toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("can disable retrying timeouts", async () => {
+    vi.mocked(fetch).mockImplementation(
+      (_: string, init: RequestInit) =>
+        new Promise((_, reject) =>
+          init.signal?.addEventListener("abort", () =>
+            reject(new DOMException("aborted", "AbortError"))
+          )
+        )
+    );
+    const client = Wefy.create({ ...config, timeout: 10 });
+
+    await expect(
+      client.get("/test", { retry: { retryOnTimeout: false } })
+    ).rejects.toBeInstanceOf(WefyTimeoutError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("never retries non-idempotent methods unless opted in", async () => {
+    vi.mocked(fetch).mockImplementation(async () => status(503));
+    const client = Wefy.create(config);
+
+    await expect(client.post("/test", { a: 1 })).rejects.toThrow();
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    vi.mocked(fetch).mockClear();
+    await expect(
+      client.post("/test", { a: 1 }, { retry: { methods: ["POST"] } })
+    ).rejects.toThrow();
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("consults shouldRetry", async () => {
+    vi.mocked(fetch).mockImplementation(async () => status(400));
+    const shouldRetry = vi.fn(({ attempt }) => attempt < 2);
+    const client = Wefy.create(config);
+
+    await expect(client.get("/test", { retry: { shouldRetry } })).rejects.toThrow();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(shouldRetry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempt: 1,
+        method: "GET",
+        url: "https://api.example.com/test",
+        error: expect.any(WefyHttpError),
+      })
+    );
+  });
+
+  it("waits for Retry-After", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(status(429, { "Retry-After": "0.05" }));
+    const client = Wefy.create(config);
+
+    const startedAt = Date.now();
+    await client.get("/test");
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up when Retry-After exceeds maxDelay", async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(status(503, { "Retry-After": "120" }));
+    const client = Wefy.create(config);
+
+    await expect(client.get("/test")).rejects.toBeInstanceOf(WefyHttpError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting between attempts when aborted", async () => {
+    vi.mocked(fetch).mockImplementation(async () => status(503));
+    const controller = new AbortController();
+    const client = Wefy.create({
+      ...config,
+      retry: { attempts: 5, delay: 1000, jitter: false },
+    });
+
+    const promise = client.get("/test", {
+      options: { signal: controller.signal },
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    const error = await promise.catch((e) => e);
+    expect(error.name).toBe("AbortError");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry unless configured", async () => {
+    vi.mocked(fetch).mockImplementation(async () => status(503));
+    const client = Wefy.create({ baseUrl: config.baseUrl });
+
+    await expect(client.get("/test")).rejects.toThrow();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets a request disable retries", async () => {
+    vi.mocked(fetch).mockImplementation(async () => status(503));
+    const client = Wefy.create(config);
+
+    await expect(client.get("/test", { retry: false })).rejects.toThrow();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Retry | utils", () => {
+  it("parses Retry-After seconds and dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfter("3", now)).toBe(3000);
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+
+  it("computes backoff delays", () => {
+    const options = { ...defaultRetryOptions, delay: 100, maxDelay: 1000 };
+    expect(backoffDelay(1, options)).toBe(100);
+    expect(backoffDelay(3, options)).toBe(400);
+    expect(backoffDelay(5, options)).toBe(1000);
+    expect(backoffDelay(3, { ...options, backoff: "linear" })).toBe(300);
+    expect(backoffDelay(3, { ...options, backoff: "fixed" })).toBe(100);
+    expect(backoffDelay(2, { ...options, backoff: (n) => n * 7 })).toBe(14);
+  });
+
+  it("merges retry configuration", () => {
+    expect(resolveRetryOptions(undefined, undefined)).toBeNull();
+    expect(resolveRetryOptions(3, false)).toBeNull();
+    expect(resolveRetryOptions(true)?.attempts).toBe(3);
+    expect(resolveRetryOptions({ delay: 5 }, 4)).toMatchObject({
+      attempts: 4,
+      delay: 5,
+    });
+  });
+});
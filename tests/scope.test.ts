@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest";
+import { Wefy } from "../src/core";
+import { bearerAuth } from "../src/auth";
+import { createHandlerTransport } from "../src/transport";
+
+describe("Scopes and decoration | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  const header = (fetch: ReturnType<typeof vi.fn>, index: number, name: string) =>
+    new Headers((fetch.mock.calls[index][1] as RequestInit).headers).get(name);
+
+  it("registers scopes on the client it returns", async () => {
+    const fetch = vi.fn(async () => Response.json([]));
+    const client = Wefy.create({ baseUrl, fetch });
+
+    const api = client
+      .scope("users", (ctx) => ({ list: () => ctx.get("/users") }))
+      .scope("posts", (ctx) => ({ list: () => ctx.get("/posts") }));
+
+    expect(api).toBe(client);
+    expect(client.listScopes()).toEqual(["users", "posts"]);
+    await api.users.list();
+    expect(fetch.mock.calls[0][0]).toBe("https://api.example.com/users");
+  });
+
+  it("applies scope configuration to the scope's requests only", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const api = Wefy.create({ baseUrl, fetch }).scope(
+      "admin",
+      (ctx) => ({ stats: () => ctx.get("/stats") }),
+      { options: { headers: { "X-Admin": "1" } } }
+    );
+
+    await api.admin.stats();
+    await api.get("/stats");
+
+    expect(header(fetch, 0, "x-admin")).toBe("1");
+    expect(header(fetch, 1, "x-admin")).toBeNull();
+    expect(api.getScopeInfo("admin")?.config).toEqual({ options: { headers: { "X-Admin": "1" } } });
+  });
+
+  it("nests scopes and lists the full tree", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const api = Wefy.create({ baseUrl, fetch }).scope(
+      "admin",
+      (ctx) => ({ stats: () => ctx.get("/stats") }),
+      { options: { headers: { "X-Admin": "1" } } }
+    );
+
+    const admin = api.admin.scope("users", (ctx) => ({ ban: (id: string) => ctx.post(`/users/${id}/ban`) }), {
+      timeout: 1000,
+    });
+    await admin.users.ban("7");
+
+    expect(admin).toBe(api.admin);
+    expect(api.listScopes()).toEqual(["admin", "admin.users"]);
+    expect(api.hasScope("admin.users")).toBe(true);
+    expect(api.getScopeInfo("admin.users")?.config).toEqual({ timeout: 1000 });
+    expect(header(fetch, 0, "x-admin")).toBe("1");
+  });
+
+  it("rejects duplicate scopes and names taken by the client", () => {
+    const api = Wefy.create(baseUrl).scope("users", {});
+
+    expect(() => api.scope("users", {})).toThrow('Scope "users" already exists.');
+    expect(() => api.scope("get", {})).toThrow('"get" is already defined.');
+    expect(() => api.decorate("users", {})).toThrow('"users" is already defined.');
+  });
+
+  it("rebuilds inherited scopes on decorated clients", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const api = Wefy.create({ baseUrl, fetch }).scope("users", (ctx) => ({
+      list: () => ctx.get("/users"),
+      remember: (value: string) => ctx.state.set("last", value),
+    }));
+    api.users.scope("roles", (ctx) => ({ list: () => ctx.get("/roles") }));
+
+    const decorated = api.decorate("tenant", { options: { headers: { "X-Tenant": "acme" } } }).tenant;
+    decorated.users.remember("ada");
+    await decorated.users.list();
+    await (decorated.users as any).roles.list();
+    await api.users.list();
+
+    expect(decorated.listScopes()).toEqual(["users", "users.roles"]);
+    expect(decorated.users).not.toBe(api.users);
+    expect(api.getScopeInfo("users")?.state.get("last")).toBe("ada");
+    expect(header(fetch, 0, "x-tenant")).toBe("acme");
+    expect(header(fetch, 1, "x-tenant")).toBe("acme");
+    expect(header(fetch, 2, "x-tenant")).toBeNull();
+  });
+
+  it("chains decorations", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const api = Wefy.create({ baseUrl, fetch }).decorate("auth", { options: { headers: { A: "1" } } });
+    const admin = api.auth.decorate("admin", { options: { headers: { B: "2" } } }).admin;
+
+    await admin.get("/");
+
+    expect(header(fetch, 0, "a")).toBe("1");
+    expect(header(fetch, 0, "b")).toBe("2");
+  });
+
+  it("returns a copy instead of changing the decorated client", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const api = Wefy.create({ baseUrl, fetch }).scope("users", (ctx) => ({ list: () => ctx.get("/users") }));
+    const first = api.decorate("ada", { options: { headers: { "X-User": "ada" } } });
+    const second = first.decorate("bob", { options: { headers: { "X-User": "bob" } } });
+
+    await second.users.list();
+    await second.bob.users.list();
+
+    expect(first).not.toBe(api);
+    expect("ada" in api).toBe(false);
+    expect("bob" in first).toBe(false);
+    expect(second.ada).toBe(first.ada);
+    expect(second.listScopes()).toEqual(["users"]);
+    expect(header(fetch, 0, "x-user")).toBeNull();
+    expect(header(fetch, 1, "x-user")).toBe("bob");
+  });
+
+  it("keeps the fetch, transport and auth of the parent", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const handler = vi.fn(async () => Response.json({ via: "transport" }));
+    const viaFetch = Wefy.create({ baseUrl, fetch, auth: bearerAuth("t") })
+      .scope("users", (ctx) => ({ list: () => ctx.get("/users") }))
+      .decorate("v2", { timeout: 1000 });
+    const viaTransport = Wefy.create({ baseUrl, transport: createHandlerTransport(handler) }).decorate("child", {});
+
+    await viaFetch.users.list();
+    await viaFetch.v2.get("/me");
+    await viaFetch.v2.users.list();
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect([0, 1, 2].map((index) => header(fetch, index, "authorization"))).toEqual(["Bearer t", "Bearer t", "Bearer t"]);
+    await expect(viaTransport.child.get("/")).resolves.toEqual({ via: "transport" });
+  });
+
+  it("runs parent interceptors in decorated clients and scopes", async () => {
+    const fetch = vi.fn(async () => Response.json({}));
+    const api = Wefy.create({ baseUrl, fetch })
+      .scope("users", (ctx) => ({ list: () => ctx.get("/users") }), { timeout: 1000 })
+      .decorate("child", {});
+
+    api.interceptors.request.use(({ url, init }) => ({ url: `${url}?from=parent`, init }));
+    api.child.interceptors.request.use(({ url, init }) => ({ url: `${url}&from=child`, init }));
+
+    await api.users.list();
+    await api.child.get("/me");
+
+    expect(fetch.mock.calls[0][0]).toBe("https://api.example.com/users?from=parent");
+    expect(fetch.mock.calls[1][0]).toBe("https://api.example.com/me?from=parent&from=child");
+  });
+});
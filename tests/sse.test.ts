@@ -0,0 +1,143 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+import { Wefy, WefyHttpError } from "../src/core";
+import { EventStreamParser, WefyServerSentEvent } from "../src/sse";
+
+const eventStream = (chunks: string[], status = 200) => {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    }),
+    { status, headers: { "Content-Type": "text/event-stream" } }
+  );
+};
+
+describe("SSE | parser", () => {
+  const parse = (...chunks: string[]) => {
+    const events: WefyServerSentEvent[] = [];
+    const retries: number[] = [];
+    const parser = new EventStreamParser((event) => events.push(event), (delay) => retries.push(delay));
+    chunks.forEach((chunk) => parser.feed(chunk));
+    return { events, retries, parser };
+  };
+
+  it("parses fields and joins data lines", () => {
+    const { events, retries, parser } = parse(
+      "﻿: comment\nid: 1\nevent: update\ndata: first\ndata:second\nretry: 500\n\n"
+    );
+
+    expect(events).toEqual([{ id: "1", event: "update", data: "first\nsecond" }]);
+    expect(retries).toEqual([500]);
+    expect(parser.lastEventId).toBe("1");
+  });
+
+  it("handles CR, LF and CRLF split across chunks", () => {
+    const { events } = parse("data: a\r", "\n\r\ndata: b\r\rdata: c\n", "\n");
+
+    expect(events.map(({ data }) => data)).toEqual(["a", "b", "c"]);
+  });
+
+  it("keeps the last event id and ignores events without data", () => {
+    const { events } = parse("id: 7\n\nevent: ping\n\ndata: x\n\n");
+
+    expect(events).toEqual([{ id: "7", event: "message", data: "x" }]);
+  });
+});
+
+describe("SSE | Wefy", () => {
+  const baseUrl = "https://api.example.com";
+
+  it("streams events through the client configuration", async () => {
+    const fetch = vi.fn(async () => eventStream(["data: one\n\n", "event: done\ndata: two\n\n"]));
+    const client = Wefy.create({
+      baseUrl,
+      fetch,
+      options: { headers: { Authorization: "Bearer t" } },
+    });
+
+    const events: WefyServerSentEvent[] = [];
+    for await (const event of client.sse("/feed", { params: { room: 1 } })) {
+      events.push(event);
+      if (event.event === "done") break;
+    }
+
+    expect(events.map(({ data }) => data)).toEqual(["one", "two"]);
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = new Headers(init.headers);
+    expect(url).toBe("https://api.example.com/feed?room=1");
+    expect(headers.get("accept")).toBe("text/event-stream");
+    expect(headers.get("authorization")).toBe("Bearer t");
+  });
+
+  it("reconnects with Last-Event-ID using the server retry delay", async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(eventStream(["retry: 5\nid: 41\ndata: a\n\n"]))
+      .mockResolvedValueOnce(eventStream(["id: 42\ndata: b\n\n"]));
+    const client = Wefy.create({ baseUrl, fetch });
+    const source = client.sse("/feed");
+
+    const received: string[] = [];
+    const errors: Error[] = [];
+    source.on("error", (error) => errors.push(error));
+    source.on("message", (event) => {
+      received.push(event.data);
+      if (received.length === 2) source.close();
+    });
+
+    await vi.waitFor(() => expect(source.readyState).toBe("closed"));
+    expect(received).toEqual(["a", "b"]);
+    expect(new Headers(fetch.mock.calls[1][1].headers).get("last-event-id")).toBe("41");
+    expect(source.lastEventId).toBe("42");
+    expect(errors).toEqual([]);
+  });
+
+  it("reconnects after network failures up to maxRetries", async () => {
+    const fetch = vi.fn().mockRejectedValue(new TypeError("Failed to fetch"));
+    const client = Wefy.create({ baseUrl, fetch });
+    const source = client.sse("/feed", { retryDelay: 1, maxRetries: 2 });
+    const errors: Error[] = [];
+    source.on("error", (error) => errors.push(error));
+
+    const iterator = source[Symbol.asyncIterator]();
+    await expect(iterator.next()).rejects.toThrow("Failed to fetch");
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(errors).toHaveLength(3);
+    expect(source.readyState).toBe("closed");
+  });
+
+  it("does not reconnect when the server rejects the stream", async () => {
+    const fetch = vi.fn(async () => new Response("gone", { status: 404 }));
+    const client = Wefy.create({ baseUrl, fetch });
+
+    const iterator = client.sse("/feed", { retryDelay: 1 })[Symbol.asyncIterator]();
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(WefyHttpError);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it("stops on abort", async () => {
+    const fetch = vi.fn(
+      (_: string, init: RequestInit) =>
+        new Promise<Response>((_, reject) =>
+          init.signal?.addEventListener("abort", () => reject(init.signal?.reason))
+        )
+    );
+    const client = Wefy.create({ baseUrl, fetch, timeout: 0 });
+    const controller = new AbortController();
+    const source = client.sse("/feed", { options: { signal: controller.signal } });
+
+    const next = source[Symbol.asyncIterator]().next();
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledOnce());
+    controller.abort();
+
+    await expect(next).resolves.toEqual({ value: undefined, done: true });
+    expect(source.readyState).toBe("closed");
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+});
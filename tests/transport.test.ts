@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Wefy, WefyConfig } from "../src/core";
+import { createHandlerTransport, WefyTransport } from "../src/transport";
+
+describe("Transport | Wefy", () => {
+  const config: WefyConfig = { baseUrl: "https://api.example.com" };
+
+  const json = (data: unknown, status = 200) =>
+    new Response(JSON.stringify(data), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    global.fetch = vi.fn().mockRejectedValue(new Error("network disabled"));
+  });
+
+  it("uses a custom fetch instead of the global one", async () => {
+    const customFetch = vi.fn().mockResolvedValue(json({ ok: true }));
+    const client = Wefy.create({ ...config, fetch: customFetch });
+
+    await expect(client.get("/me")).resolves.toEqual({ ok: true });
+
+    expect(customFetch).toHaveBeenCalledWith(
+      "https://api.example.com/me",
+      expect.objectContaining({ method: "GET" })
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("calls the custom fetch without binding it to the client", async () => {
+    let receiver: unknown = "unset";
+    const client = Wefy.create({
+      ...config,
+      fetch: function (this: unknown) {
+        receiver = this;
+        return Promise.resolve(json({}));
+      },
+    });
+
+    await client.get("/me");
+
+    expect(receiver).toBeUndefined();
+  });
+
+  it("prefers a transport over fetch", async () => {
+    const transport: WefyTransport = {
+      send: vi.fn().mockResolvedValue(json({ via: "transport" })),
+    };
+    const customFetch = vi.fn();
+    const client = Wefy.create({ ...config, fetch: customFetch, transport });
+
+    await expect(client.get("/me")).resolves.toEqual({ via: "transport" });
+
+    expect(transport.send).toHaveBeenCalledOnce();
+    expect(customFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("Transport | handler", () => {
+  it("routes requests to an in-process handler", async () => {
+    const handler = vi.fn(async (request: Request) => {
+      const url = new URL(request.url);
+      return Response.json(
+        {
+          method: request.method,
+          path: url.pathname,
+          query: url.searchParams.get("q"),
+          auth: request.headers.get("authorization"),
+          body: await request.json(),
+        },
+        { status: 201 }
+      );
+    });
+    const client = Wefy.create({
+      baseUrl: "https://app.local",
+      transport: createHandlerTransport(handler),
+      options: { headers: { Authorization: "Bearer t" } },
+    });
+
+    const result = await client.post("/items", { name: "a" }, { params: { q: "x" } });
+
+    expect(result).toEqual({
+      method: "POST",
+      path: "/items",
+      query: "x",
+      auth: "Bearer t",
+      body: { name: "a" },
+    });
+  });
+
+  it("surfaces handler responses to status validation", async () => {
+    const client = Wefy.create({
+      baseUrl: "https://app.local",
+      transport: createHandlerTransport(() => new Response("nope", { status: 404 })),
+    });
+
+    await expect(client.get("/missing")).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("rejects when the request is aborted while the handler runs", async () => {
+    const transport = createHandlerTransport(() => new Promise<Response>(() => {}));
+    const controller = new AbortController();
+
+    const pending = transport.send("https://app.local/slow", {
+      method: "GET",
+      signal: controller.signal,
+    });
+    controller.abort(new Error("stop"));
+
+    await expect(pending).rejects.toThrow("stop");
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { sanitizeUrl } from "../src/core/utils";
+import { fillPathParams, sanitizeUrl } from "../src/core/utils";
+import { Params, SanitizeUrlOptions } from "../src/core/types";
+import { WefyPathParamError } from "../src/core/error";
 
 describe("Utils | sanitizeUrl", () => {
   const BASE_URL = "https://api.example.com";
@@ -102,6 +104,106 @@ describe("Utils | sanitizeUrl", () => {
     });
   });
 
+  describe("Query Serialization", () => {
+    const query = (params: Params, options: SanitizeUrlOptions = {}, endpoint = "/test") =>
+      sanitizeUrl(BASE_URL, endpoint, params, { encode: true, preserveEncoding: true, ...options }).search;
+
+    it("writes arrays in every format", () => {
+      const params = { a: [1, 2] };
+      expect(query(params)).toBe("?a=1&a=2");
+      expect(query(params, { arrayFormat: "brackets" })).toBe("?a[]=1&a[]=2");
+      expect(query(params, { arrayFormat: "indices" })).toBe("?a[0]=1&a[1]=2");
+      expect(query(params, { arrayFormat: "comma" })).toBe("?a=1,2");
+    });
+
+    it("writes nested records and records in arrays", () => {
+      expect(query({ filter: { status: "open", owner: { id: 7 } } })).toBe("?filter[status]=open&filter[owner][id]=7");
+      expect(query({ sort: [{ field: "name" }, { field: "id" }] }, { arrayFormat: "comma" })).toBe(
+        "?sort[0][field]=name&sort[1][field]=id"
+      );
+    });
+
+    it("writes dates as ISO strings", () => {
+      expect(query({ since: new Date(Date.UTC(2024, 0, 2)) })).toBe("?since=2024-01-02T00%3A00%3A00.000Z");
+    });
+
+    it("encodes keys and values once", () => {
+      expect(query({ q: "a b&c=d", "x y": "50%" })).toBe("?q=a%20b%26c%3Dd&x%20y=50%25");
+      expect(query({ tags: ["a,b", "c"] }, { arrayFormat: "comma" })).toBe("?tags=a%2Cb,c");
+      expect(query({ q: "a b" }, {}, "/test?raw=a%20b")).toBe("?raw=a%20b&q=a%20b");
+    });
+
+    it("replaces endpoint query keys written by params, nested keys included", () => {
+      expect(query({ f: { s: "new" } }, {}, "/test?f[s]=old&keep=1")).toBe("?keep=1&f[s]=new");
+      expect(query({ a: [1, 2] }, { arrayFormat: "brackets" }, "/test?a[]=0&a=0")).toBe("?a[]=1&a[]=2");
+      expect(query({ page: 2 }, {}, "/test?page=1&flag")).toBe("?flag&page=2");
+    });
+
+    it("handles null values by mode", () => {
+      const params = { a: null, b: [null, 1], c: undefined };
+      expect(query(params)).toBe("?b=1");
+      expect(query(params, { nulls: "empty" })).toBe("?a=&b=&b=1");
+      expect(query(params, { nulls: "literal" })).toBe("?a=null&b=null&b=1");
+    });
+
+    it("encodes key segments without encoding the brackets twice", () => {
+      const url = sanitizeUrl(BASE_URL, "/test", { filter: { "a b": "c&d" } }, { encode: false });
+      expect(url.searchParams.get("filter[a b]")).toBe("c&d");
+    });
+
+    it("appends the output of a custom serializer as-is", () => {
+      const url = sanitizeUrl(BASE_URL, "/test?x=1", { a: [1, 2] }, {
+        paramsSerializer: (params) => `?a=${(params.a as number[]).join("|")}`,
+      });
+      expect(url.search).toBe("?x=1&a=1|2");
+    });
+  });
+
+  describe("Path Parameters", () => {
+    it("fills :name segments and {name} placeholders", () => {
+      const url = sanitizeUrl(BASE_URL, "/users/:id/posts/{postId}?draft=1", undefined, { encode: true }, {
+        id: 7,
+        postId: "a/b c",
+      });
+      expect(url.toString()).toBe(`${BASE_URL}/users/7/posts/a%2Fb%20c?draft=1`);
+    });
+
+    it("keeps existing escapes when preserving encoding", () => {
+      expect(fillPathParams("/files/:name", { name: "50%25 off" }, { encode: true, preserveEncoding: true })).toBe("/files/50%25%20off");
+      expect(fillPathParams("/files/:name", { name: "50%25" }, { encode: true, preserveEncoding: false })).toBe("/files/50%2525");
+      expect(fillPathParams("/files/:name", { name: "a b" }, { encode: false })).toBe("/files/a b");
+    });
+
+    it("leaves ports, schemes and times alone", () => {
+      expect(fillPathParams("http://localhost:8080/users/:id", { id: 1 })).toBe("http://localhost:8080/users/1");
+      expect(fillPathParams("/at/12:30", {})).toBe("/at/12:30");
+    });
+
+    it("ends names at the first character outside A-Za-z0-9_ and skips the query and fragment", () => {
+      expect(fillPathParams("/users/:id.json", { id: 7 })).toBe("/users/7.json");
+      expect(fillPathParams("/users/:user_id-{v2}", { user_id: 1, v2: "a" })).toBe("/users/1-a");
+      expect(fillPathParams("/users/{id}#{frag}", { id: 7 })).toBe("/users/7#{frag}");
+      expect(fillPathParams("/users/:id?at=/:time", { id: 7 })).toBe("/users/7?at=/:time");
+    });
+
+    it("rejects missing and unused parameters", () => {
+      expect(() => sanitizeUrl(BASE_URL, "/users/:id/{tab}", undefined, undefined, { tab: "x", extra: 1 })).toThrow(
+        "Path parameters do not match /users/:id/{tab}: missing id; unused extra"
+      );
+
+      const error = (() => {
+        try {
+          fillPathParams("/users/:id", {});
+        } catch (error) {
+          return error;
+        }
+      })() as WefyPathParamError;
+      expect(error).toBeInstanceOf(WefyPathParamError);
+      expect(error.missing).toEqual(["id"]);
+      expect(error.unused).toEqual([]);
+    });
+  });
+
   describe("Edge Cases", () => {
     it("handles very long URLs", () => {
       const longPath = "/" + "a".repeat(2000);